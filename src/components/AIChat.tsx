@@ -1,58 +1,469 @@
-import { useState, useRef, useEffect } from "react";
-import { Bot, User, Send, Loader2 } from "lucide-react";
+import { useState, useRef, useEffect, useMemo, useCallback } from "react";
+import {
+  Bot,
+  Send,
+  Loader2,
+  Square,
+  Pencil,
+  RefreshCw,
+  ChevronLeft,
+  ChevronRight,
+  Paperclip,
+} from "lucide-react";
 import { Button } from "./ui/button";
 import { Textarea } from "./ui/textarea";
 import { ScrollArea } from "./ui/scroll-area";
+import { Switch } from "./ui/switch";
+import { Label } from "./ui/label";
+import { Command, CommandGroup, CommandItem, CommandList } from "./ui/command";
+import ChatMessage from "./ChatMessage";
+import ChatAttachment from "./ChatAttachment";
 import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import {
+  FileAction,
+  FileActionError,
+  MessageFileAction,
+  ToolCall,
+  describeFileActions,
+  parseToolCall,
+} from "@/lib/file-actions";
+import type { DiffHunk } from "@/lib/file-diff";
+import { Attachment, MAX_ATTACHMENTS, attachmentError, uploadAttachment } from "@/lib/attachments";
+import { Suggestion, expandInput, findTrigger, suggestionsFor } from "@/lib/chat-commands";
+import { BranchChoice, ROOT_KEY, activeThread, choose, groupByParent, pathTo } from "@/lib/chat-branches";
 
 interface Message {
+  id: string;
+  /** The message this one follows; edits and regenerations share a parent */
+  parentId: string | null;
   role: "user" | "assistant";
   content: string;
+  fileActions: MessageFileAction[];
+  attachments: Attachment[];
+  createdAt: string;
+}
+
+/** A message sent on the user's behalf, e.g. "fix this error" from the preview console. */
+export interface QueuedPrompt {
+  id: string;
+  content: string;
 }
 
 interface AIChatProps {
   projectId: string;
-  onFileAction: (action: FileAction) => void;
+  /** File open in the editor; the assistant sees it in full */
+  selectedPath?: string;
+  /** Paths of the project's files, offered when typing an `@` mention */
+  filePaths: string[];
+  /** Stages an action for review; resolves with its diff, rejects if it cannot be staged */
+  onFileAction: (action: FileAction, messageId: string) => Promise<DiffHunk[]>;
+  /** Reverts the assistant's latest applied changes (`/undo`); rejects if there are none */
+  onUndo: () => Promise<void>;
+  queuedPrompt?: QueuedPrompt | null;
+  /** Called with the assistant message id, or null when the turn failed */
+  onQueuedPromptDone?: (promptId: string, messageId: string | null) => void;
 }
 
-export interface FileAction {
-  type: "create" | "edit";
-  path: string;
-  content: string;
-  language: string;
-}
+type StreamEvent =
+  | { type: "text"; delta: string }
+  | { type: "tool_call"; index: number; id?: string; name?: string; argumentsDelta: string }
+  | { type: "error"; error: string };
+
+const toMessage = (row: Tables<"message">): Message => ({
+  id: row.id,
+  parentId: row.parent_id,
+  role: row.sender === "user" ? "user" : "assistant",
+  content: row.message_text,
+  fileActions: (row.file_actions ?? []) as unknown as MessageFileAction[],
+  attachments: (row.attachments ?? []) as unknown as Attachment[],
+  createdAt: row.created_at,
+});
+
+// What the model sees of earlier turns, including the files they changed;
+// attachments are loaded by the edge function
+const toChatHistory = (messages: Message[]) =>
+  messages.map(({ role, content, fileActions, attachments }) => ({
+    role,
+    content: [content, describeFileActions(fileActions)].filter(Boolean).join("\n\n"),
+    attachments,
+  }));
 
-const AIChat = ({ projectId, onFileAction }: AIChatProps) => {
+const isActive = (job: Tables<"jobs">) => job.status === "queued" || job.status === "running";
+
+const jobParentId = (job: Tables<"jobs">) =>
+  (job.input as { parentId?: string | null } | null)?.parentId ?? null;
+
+const AIChat = ({
+  projectId,
+  selectedPath,
+  filePaths,
+  onFileAction,
+  onUndo,
+  queuedPrompt,
+  onQueuedPromptDone,
+}: AIChatProps) => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [historyLoaded, setHistoryLoaded] = useState(false);
+  // Background turns run in the ai-job-worker function and keep going if
+  // the tab is closed; their changes are applied without review
+  const [runInBackground, setRunInBackground] = useState(false);
+  const [activeJob, setActiveJob] = useState<Tables<"jobs"> | null>(null);
+  const [branchChoice, setBranchChoice] = useState<BranchChoice>({});
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+  // Files picked, pasted or dropped for the next message, uploaded on send
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Autocomplete for the command or mention being typed at the caret
+  const [caret, setCaret] = useState(0);
+  const [suggestionIndex, setSuggestionIndex] = useState(0);
+  const [suggestionsDismissed, setSuggestionsDismissed] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // Aborts the streaming request of the turn in progress
+  const abortRef = useRef<AbortController | null>(null);
+  // Whether abortRef holds a request; undo, uploads and queueing a background
+  // turn keep the chat busy but cannot be stopped
+  const [streaming, setStreaming] = useState(false);
+  const sentPromptIdRef = useRef<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
 
+  const busy = isLoading || activeJob !== null;
+  const siblings = useMemo(() => groupByParent(messages), [messages]);
+  const thread = useMemo(() => activeThread(messages, branchChoice), [messages, branchChoice]);
+  const trigger = useMemo(() => findTrigger(input, caret), [input, caret]);
+  const suggestions = useMemo(
+    () => (trigger ? suggestionsFor(trigger, filePaths) : []),
+    [trigger, filePaths]
+  );
+  const showSuggestions = suggestions.length > 0 && !suggestionsDismissed && !busy;
+  const activeSuggestion = suggestions[Math.min(suggestionIndex, suggestions.length - 1)];
+
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  }, [thread]);
 
-  const handleSend = async () => {
-    if (!input.trim() || isLoading) return;
+  const loadMessages = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("message")
+        .select("*")
+        .eq("project_id", projectId)
+        .order("created_at", { ascending: true });
 
-    const userMessage: Message = { role: "user", content: input };
-    setMessages(prev => [...prev, userMessage]);
-    setInput("");
+      if (error) throw error;
+      setMessages((data || []).map(toMessage));
+    } catch (error) {
+      toast({
+        title: "Error loading chat history",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setHistoryLoaded(true);
+    }
+  }, [projectId, toast]);
+
+  // Shows, updates or (when empty) hides an assistant message
+  const showMessage = useCallback(({
+    id,
+    content,
+    parentId,
+    fileActions = [],
+    createdAt = new Date().toISOString(),
+  }: Pick<Message, "id" | "content" | "parentId"> & Partial<Pick<Message, "fileActions" | "createdAt">>) => {
+    setMessages(prev => {
+      const index = prev.findIndex(m => m.id === id);
+      if (!content && fileActions.length === 0) {
+        return index === -1 ? prev : prev.filter(m => m.id !== id);
+      }
+
+      const newMessages = [...prev];
+      if (index !== -1) {
+        newMessages[index] = { ...newMessages[index], content, fileActions };
+      } else {
+        newMessages.push({ id, parentId, role: "assistant", content, fileActions, attachments: [], createdAt });
+      }
+      return newMessages;
+    });
+  }, []);
+
+  const showJobMessage = useCallback(
+    (job: Tables<"jobs">, messageId: string, fileActions: MessageFileAction[] = []) =>
+      showMessage({
+        id: messageId,
+        content: job.output,
+        parentId: jobParentId(job),
+        fileActions,
+        createdAt: job.created_at,
+      }),
+    [showMessage]
+  );
+
+  const handleJobChange = useCallback((job: Tables<"jobs">) => {
+    if (isActive(job)) {
+      setActiveJob(job);
+      // The worker names the reply when it picks the job up; a retried job
+      // starts its output over
+      if (job.message_id) showJobMessage(job, job.message_id);
+      return;
+    }
+
+    setActiveJob(prev => (prev && prev.id !== job.id ? prev : null));
+
+    if (job.status === "succeeded" && job.message_id) {
+      const actions = (job.actions ?? []) as unknown as MessageFileAction[];
+      showJobMessage(job, job.message_id, actions);
+
+      const applied = actions.filter(action => action.status === "applied");
+      if (applied.length > 0) {
+        toast({
+          title: "Changes applied",
+          description: `${applied.length} file change(s) applied. A checkpoint was saved before them.`,
+        });
+      }
+      return;
+    }
+
+    if (job.status === "failed") {
+      toast({
+        title: "Background turn failed",
+        description: job.error ?? "Unknown error",
+        variant: "destructive",
+      });
+    }
+    // Drop the partial reply; the saved history is what the job left behind
+    loadMessages();
+  }, [showJobMessage, toast, loadMessages]);
+
+  const loadActiveJob = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("jobs")
+      .select("*")
+      .eq("project_id", projectId)
+      .in("status", ["queued", "running"])
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error loading background jobs:", error);
+      return;
+    }
+    if (data) handleJobChange(data);
+  }, [projectId, handleJobChange]);
+
+  useEffect(() => {
+    setActiveJob(null);
+    setBranchChoice({});
+    loadMessages().then(loadActiveJob);
+
+    // Keep other tabs on the same project in sync
+    const channel = supabase
+      .channel(`message-${projectId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "message",
+          filter: `project_id=eq.${projectId}`,
+        },
+        (payload) => {
+          const incoming = toMessage(payload.new as Tables<"message">);
+          setMessages(prev =>
+            prev.some(m => m.id === incoming.id)
+              ? prev
+              : [...prev, incoming].sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+          );
+        }
+      )
+      .subscribe();
+
+    // Progress of background turns, including ones started before a reload
+    const jobsChannel = supabase
+      .channel(`jobs-${projectId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "jobs",
+          filter: `project_id=eq.${projectId}`,
+        },
+        (payload) => {
+          if (payload.eventType !== "DELETE") handleJobChange(payload.new as Tables<"jobs">);
+        }
+      )
+      .subscribe();
+
+    // Runs when the project changes or the editor closes; the editor keeps
+    // the chat mounted while other views are shown
+    return () => {
+      abortRef.current?.abort();
+      supabase.removeChannel(channel);
+      supabase.removeChannel(jobsChannel);
+    };
+  }, [projectId, loadMessages, loadActiveJob, handleJobChange]);
+
+  // Queues a turn for the ai-job-worker function; progress arrives over realtime
+  const sendInBackground = async (history: Message[], userMessage: Message, isNewUserMessage: boolean) => {
+    if (isNewUserMessage) setMessages(prev => [...prev, userMessage]);
+    // The reply gets its id from the worker; showing the newest reply to the
+    // message picks it up once it arrives
+    setBranchChoice(prev => {
+      const { [userMessage.id]: _previousReply, ...rest } = choose(prev, userMessage);
+      return rest;
+    });
+    setIsLoading(true);
+
+    try {
+      if (isNewUserMessage) {
+        const { error: messageError } = await supabase.from("message").insert({
+          id: userMessage.id,
+          project_id: projectId,
+          parent_id: userMessage.parentId,
+          sender: "user",
+          message_text: userMessage.content,
+          attachments: userMessage.attachments as unknown as Json,
+          status: "completed",
+          created_at: userMessage.createdAt,
+        });
+
+        if (messageError) throw messageError;
+      }
+
+      const { data: job, error } = await supabase
+        .from("jobs")
+        .insert({
+          project_id: projectId,
+          kind: "ai_turn",
+          input: {
+            messages: toChatHistory([...history, userMessage]) as unknown as Json,
+            selectedPath: selectedPath ?? null,
+            parentId: userMessage.id,
+          },
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      // Realtime may already have reported progress
+      setActiveJob(prev => prev ?? job);
+    } catch (error) {
+      toast({
+        title: "Error starting background turn",
+        description: error.message,
+        variant: "destructive",
+      });
+      loadMessages();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancelJob = async () => {
+    if (!activeJob) return;
+
+    const { error } = await supabase.rpc("cancel_job", { _id: activeJob.id });
+
+    if (error) {
+      toast({
+        title: "Error cancelling",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleStop = () => {
+    if (activeJob) {
+      handleCancelJob();
+    } else {
+      abortRef.current?.abort();
+    }
+  };
+
+  const saveMessages = async (rows: Message[]) => {
+    if (rows.length === 0) return;
+
+    // Ids and timestamps are assigned client-side so the realtime echo of
+    // these rows is recognised as already present.
+    const { error } = await supabase.from("message").insert(
+      rows.map(message => ({
+        id: message.id,
+        project_id: projectId,
+        parent_id: message.parentId,
+        file_actions: message.fileActions as unknown as Json,
+        attachments: message.attachments as unknown as Json,
+        sender: message.role === "user" ? "user" : "ai",
+        message_text: message.content,
+        status: "completed",
+        created_at: message.createdAt,
+      }))
+    );
+
+    if (error) {
+      toast({
+        title: "Error saving chat history",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Streams the reply to `userMessage`, which follows `history`, and resolves
+   * with the saved assistant message id, or null. The user message is saved
+   * too unless it already exists (regenerating).
+   */
+  const runTurn = async (
+    history: Message[],
+    userMessage: Message,
+    isNewUserMessage: boolean
+  ): Promise<string | null> => {
+    const assistantId = crypto.randomUUID();
+    const controller = new AbortController();
+    let assistantMessage = "";
+    const fileActions: MessageFileAction[] = [];
+    abortRef.current = controller;
+    setStreaming(true);
+    if (isNewUserMessage) setMessages(prev => [...prev, userMessage]);
+    setBranchChoice(prev => ({ ...choose(prev, userMessage), [userMessage.id]: assistantId }));
     setIsLoading(true);
 
+    const assistantRow = (): Message => ({
+      id: assistantId,
+      parentId: userMessage.id,
+      role: "assistant",
+      content: assistantMessage,
+      fileActions,
+      attachments: [],
+      createdAt: new Date().toISOString(),
+    });
+
     try {
       const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ai-code-assistant`;
-      
+      // The function reads project files as the signed-in user
+      const { data: { session } } = await supabase.auth.getSession();
+
       const response = await fetch(CHAT_URL, {
         method: 'POST',
+        signal: controller.signal,
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+          'apikey': import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+          'Authorization': `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
         },
         body: JSON.stringify({
-          messages: [...messages, userMessage],
+          messages: toChatHistory([...history, userMessage]),
           projectId,
+          selectedPath,
         }),
       });
 
@@ -65,10 +476,14 @@ const AIChat = ({ projectId, onFileAction }: AIChatProps) => {
       if (!reader) throw new Error('No response body');
 
       const decoder = new TextDecoder();
-      let assistantMessage = "";
       let buffer = "";
+      let streamDone = false;
+      const toolCalls: ToolCall[] = [];
+
+      const showAssistantMessage = (content: string) =>
+        showMessage({ id: assistantId, content, parentId: userMessage.id, fileActions: [...fileActions] });
 
-      while (true) {
+      while (!streamDone) {
         const { done, value } = await reader.read();
         if (done) break;
 
@@ -84,65 +499,322 @@ const AIChat = ({ projectId, onFileAction }: AIChatProps) => {
           if (!line.startsWith("data: ")) continue;
 
           const jsonStr = line.slice(6).trim();
-          if (jsonStr === "[DONE]") break;
+          if (jsonStr === "[DONE]") {
+            streamDone = true;
+            break;
+          }
 
+          let event: StreamEvent;
           try {
-            const parsed = JSON.parse(jsonStr);
-            const content = parsed.choices?.[0]?.delta?.content;
-            if (content) {
-              assistantMessage += content;
-              setMessages(prev => {
-                const newMessages = [...prev];
-                if (newMessages[newMessages.length - 1]?.role === "assistant") {
-                  newMessages[newMessages.length - 1] = {
-                    role: "assistant",
-                    content: assistantMessage,
-                  };
-                } else {
-                  newMessages.push({ role: "assistant", content: assistantMessage });
-                }
-                return newMessages;
-              });
-            }
+            event = JSON.parse(jsonStr);
           } catch {
             continue;
           }
+
+          if (event.type === "error") {
+            throw new Error(event.error);
+          }
+
+          if (event.type === "text") {
+            assistantMessage += event.delta;
+            showAssistantMessage(assistantMessage);
+          } else if (event.type === "tool_call") {
+            // Tool call names and arguments arrive in fragments keyed by index
+            const call = (toolCalls[event.index] ??= { name: "", arguments: "" });
+            if (event.id) call.id = event.id;
+            if (event.name) call.name += event.name;
+            call.arguments += event.argumentsDelta;
+          }
         }
       }
 
-      // Try to parse file actions from the response
-      try {
-        const actionMatch = assistantMessage.match(/\{[\s\S]*"actions"[\s\S]*\}/);
-        if (actionMatch) {
-          const parsed = JSON.parse(actionMatch[0]);
-          if (parsed.actions && Array.isArray(parsed.actions)) {
-            for (const action of parsed.actions) {
-              onFileAction(action);
-            }
-            toast({
-              title: "Files updated",
-              description: `${parsed.actions.length} file(s) modified`,
-            });
-          }
+      const actions: FileAction[] = [];
+      const invalid: string[] = [];
+      for (const call of toolCalls.filter(Boolean)) {
+        try {
+          actions.push(parseToolCall(call));
+        } catch (error) {
+          const message = error instanceof FileActionError ? error.message : String(error);
+          invalid.push(message);
+          fileActions.push({ type: "invalid", path: call.name, status: "failed", hunks: [], error: message });
         }
-      } catch {
-        // Not a file action, just a regular message
       }
 
+      if (invalid.length > 0) {
+        toast({
+          title: "Rejected malformed file action",
+          description: invalid.join("\n"),
+          variant: "destructive",
+        });
+      }
+
+      let staged = 0;
+      for (const action of actions) {
+        const record: MessageFileAction = {
+          type: action.type,
+          path: action.path,
+          ...(action.type === "rename" ? { newPath: action.newPath } : {}),
+          ...(action.type === "create" || action.type === "edit" ? { language: action.language } : {}),
+          status: "proposed",
+          hunks: [],
+        };
+        try {
+          record.hunks = await onFileAction(action, assistantId);
+          staged++;
+        } catch (error) {
+          record.status = "failed";
+          record.error = `${action.path}: ${error.message}`;
+          toast({
+            title: "Could not stage file change",
+            description: error.message,
+            variant: "destructive",
+          });
+        }
+        fileActions.push(record);
+      }
+
+      if (staged > 0) {
+        toast({
+          title: "Changes ready for review",
+          description: `${staged} file change(s) proposed. Open the Review tab to apply them.`,
+        });
+      }
+
+      if (fileActions.length > 0) showAssistantMessage(assistantMessage);
+
+      if (assistantMessage || fileActions.length > 0) {
+        await saveMessages([...(isNewUserMessage ? [userMessage] : []), assistantRow()]);
+        return assistantId;
+      }
+      return null;
     } catch (error: any) {
+      if (controller.signal.aborted) {
+        // Keep what arrived before Stop; unfinished file actions are dropped
+        await saveMessages([
+          ...(isNewUserMessage ? [userMessage] : []),
+          ...(assistantMessage ? [assistantRow()] : []),
+        ]);
+        return null;
+      }
+
       console.error('Chat error:', error);
       toast({
         title: "Error",
         description: error.message,
         variant: "destructive",
       });
-      setMessages(prev => prev.slice(0, -1)); // Remove user message on error
+      // Remove the unsaved turn on error
+      setMessages(prev =>
+        prev.filter(m => (!isNewUserMessage || m.id !== userMessage.id) && m.id !== assistantId)
+      );
+      return null;
     } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setStreaming(false);
+      }
       setIsLoading(false);
     }
   };
 
+  const newUserMessage = (
+    content: string,
+    parentId: string | null,
+    attachments: Attachment[] = []
+  ): Message => ({
+    id: crypto.randomUUID(),
+    parentId,
+    role: "user",
+    content,
+    fileActions: [],
+    attachments,
+    createdAt: new Date().toISOString(),
+  });
+
+  // Continues the conversation on screen; used for queued prompts, which are
+  // always reviewed in the editor and so never run in the background
+  const sendMessage = (content: string) =>
+    runTurn(thread, newUserMessage(content, thread[thread.length - 1]?.id ?? null), true);
+  // Changes every render; the queued prompt effect reads it from here
+  const sendMessageRef = useRef(sendMessage);
+  sendMessageRef.current = sendMessage;
+
+  // Queued prompts go out once history is loaded, so the assistant sees the
+  // whole conversation, and never in the middle of another turn.
+  useEffect(() => {
+    if (!queuedPrompt || !historyLoaded || busy) return;
+    if (sentPromptIdRef.current === queuedPrompt.id) return;
+
+    sentPromptIdRef.current = queuedPrompt.id;
+    sendMessageRef.current(queuedPrompt.content).then((messageId) =>
+      onQueuedPromptDone?.(queuedPrompt.id, messageId)
+    );
+  }, [queuedPrompt, historyLoaded, busy, onQueuedPromptDone]);
+
+  const startTurn = (history: Message[], userMessage: Message, isNewUserMessage: boolean) =>
+    runInBackground
+      ? sendInBackground(history, userMessage, isNewUserMessage)
+      : runTurn(history, userMessage, isNewUserMessage);
+
+  // A new answer to the same question, kept as a sibling of the old one
+  const handleRegenerate = (assistantMessage: Message) => {
+    const userMessage = messages.find(m => m.id === assistantMessage.parentId);
+    if (!userMessage || busy) return;
+
+    startTurn(pathTo(messages, userMessage.parentId), userMessage, false);
+  };
+
+  const handleEdit = (message: Message) => {
+    setEditingId(message.id);
+    setEditText(message.content);
+  };
+
+  // Forks the conversation: the edited message becomes a sibling of the
+  // original, whose branch stays available. Attachments carry over.
+  const handleEditSubmit = (message: Message) => {
+    const content = editText.trim();
+    if ((!content && message.attachments.length === 0) || busy) return;
+
+    setEditingId(null);
+    startTurn(
+      pathTo(messages, message.parentId),
+      newUserMessage(content, message.parentId, message.attachments),
+      true
+    );
+  };
+
+  const handleSelectSibling = (message: Message, offset: number) => {
+    const options = siblings.get(message.parentId ?? ROOT_KEY) ?? [];
+    const next = options[options.indexOf(message) + offset];
+    if (next) setBranchChoice(prev => choose(prev, next));
+  };
+
+  const addFiles = (files: File[]) => {
+    const accepted: File[] = [];
+    for (const file of files) {
+      const error = attachmentError(file);
+      if (error) {
+        toast({ title: "Cannot attach file", description: error, variant: "destructive" });
+      } else {
+        accepted.push(file);
+      }
+    }
+
+    setPendingFiles(prev => {
+      const next = [...prev, ...accepted];
+      if (next.length > MAX_ATTACHMENTS) {
+        toast({
+          title: "Too many attachments",
+          description: `Up to ${MAX_ATTACHMENTS} files can be attached to a message`,
+          variant: "destructive",
+        });
+      }
+      return next.slice(0, MAX_ATTACHMENTS);
+    });
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+
+    e.preventDefault();
+    addFiles(files);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!busy) addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleUndo = async () => {
+    setIsLoading(true);
+    try {
+      await onUndo();
+      toast({
+        title: "Changes undone",
+        description: "Files are back to how they were before the assistant's last changes",
+      });
+    } catch (error) {
+      toast({
+        title: "Could not undo",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if ((!input.trim() && pendingFiles.length === 0) || busy) return;
+
+    const expanded = expandInput(input, selectedPath);
+    if (expanded.type === "undo") {
+      setInput("");
+      await handleUndo();
+      return;
+    }
+
+    const content = expanded.text;
+    setIsLoading(true);
+    let attachments: Attachment[];
+    try {
+      attachments = await Promise.all(pendingFiles.map(file => uploadAttachment(projectId, file)));
+    } catch (error) {
+      toast({
+        title: "Error uploading attachments",
+        description: error.message,
+        variant: "destructive",
+      });
+      setIsLoading(false);
+      return;
+    }
+
+    setInput("");
+    setPendingFiles([]);
+    await startTurn(thread, newUserMessage(content, thread[thread.length - 1]?.id ?? null, attachments), true);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setInput(e.target.value);
+    setCaret(e.target.selectionStart);
+    setSuggestionIndex(0);
+    setSuggestionsDismissed(false);
+  };
+
+  const applySuggestion = (suggestion: Suggestion) => {
+    if (!trigger) return;
+
+    const before = input.slice(0, trigger.start) + suggestion.insert;
+    setInput(before + input.slice(caret));
+    setCaret(before.length);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(before.length, before.length);
+    });
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (showSuggestions) {
+      const offset = e.key === "ArrowDown" ? 1 : e.key === "ArrowUp" ? -1 : 0;
+      if (offset) {
+        e.preventDefault();
+        const index = suggestions.indexOf(activeSuggestion);
+        setSuggestionIndex((index + offset + suggestions.length) % suggestions.length);
+        return;
+      }
+      if ((e.key === "Enter" || e.key === "Tab") && !e.shiftKey) {
+        e.preventDefault();
+        applySuggestion(activeSuggestion);
+        return;
+      }
+      if (e.key === "Escape") {
+        setSuggestionsDismissed(true);
+        return;
+      }
+    }
+
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       handleSend();
@@ -151,59 +823,144 @@ const AIChat = ({ projectId, onFileAction }: AIChatProps) => {
 
   return (
     <div className="flex flex-col h-full">
-      <div className="p-4 border-b">
-        <h3 className="font-semibold flex items-center gap-2">
-          <Bot className="h-5 w-5 text-primary" />
-          AI Assistant
-        </h3>
-        <p className="text-sm text-muted-foreground">
-          Tell me what you want to build
-        </p>
+      <div className="p-4 border-b flex items-start justify-between gap-4">
+        <div>
+          <h3 className="font-semibold flex items-center gap-2">
+            <Bot className="h-5 w-5 text-primary" />
+            AI Assistant
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            {runInBackground
+              ? "Runs on the server and applies changes directly"
+              : "Tell me what you want to build"}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 pt-1">
+          <Switch
+            id="run-in-background"
+            checked={runInBackground}
+            onCheckedChange={setRunInBackground}
+          />
+          <Label htmlFor="run-in-background" className="text-xs">
+            Background
+          </Label>
+        </div>
       </div>
 
       <ScrollArea className="flex-1 p-4">
         <div className="space-y-4">
-          {messages.length === 0 && (
+          {thread.length === 0 && (
             <div className="text-center text-muted-foreground py-12">
               <Bot className="h-12 w-12 mx-auto mb-4 opacity-50" />
               <p>Start a conversation to build your project</p>
             </div>
           )}
           
-          {messages.map((message, i) => (
-            <div
-              key={i}
-              className={`flex gap-3 ${
-                message.role === "user" ? "justify-end" : "justify-start"
-              }`}
-            >
-              {message.role === "assistant" && (
-                <div className="w-8 h-8 rounded-full bg-gradient-to-br from-primary to-accent flex items-center justify-center flex-shrink-0">
-                  <Bot className="w-5 h-5 text-primary-foreground" />
+          {thread.map((message, index) => {
+            const options = siblings.get(message.parentId ?? ROOT_KEY) ?? [];
+            const position = options.indexOf(message);
+            const canRegenerate =
+              message.role === "assistant" && index === thread.length - 1 && message.parentId !== null;
+
+            const editor = editingId === message.id && (
+              <div className="w-full space-y-2">
+                <Textarea
+                  value={editText}
+                  onChange={(e) => setEditText(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" && !e.shiftKey) {
+                      e.preventDefault();
+                      handleEditSubmit(message);
+                    } else if (e.key === "Escape") {
+                      setEditingId(null);
+                    }
+                  }}
+                  className="min-h-[60px] resize-none"
+                  autoFocus
+                />
+                <div className="flex justify-end gap-2">
+                  <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => handleEditSubmit(message)}
+                    disabled={(!editText.trim() && message.attachments.length === 0) || busy}
+                  >
+                    Send
+                  </Button>
                 </div>
-              )}
-              
-              <div
-                className={`max-w-[80%] rounded-2xl px-4 py-3 ${
-                  message.role === "user"
-                    ? "bg-primary text-primary-foreground"
-                    : "bg-secondary text-secondary-foreground"
-                }`}
-              >
-                <p className="text-sm whitespace-pre-wrap break-words">
-                  {message.content}
-                </p>
               </div>
-              
-              {message.role === "user" && (
-                <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center flex-shrink-0">
-                  <User className="w-5 h-5 text-muted-foreground" />
-                </div>
-              )}
-            </div>
-          ))}
+            );
+
+            const footer = !editor && (options.length > 1 || !busy) && (
+              <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                {options.length > 1 && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => handleSelectSibling(message, -1)}
+                      disabled={busy || position === 0}
+                      title="Previous version"
+                    >
+                      <ChevronLeft className="h-3 w-3" />
+                    </Button>
+                    <span>
+                      {position + 1}/{options.length}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => handleSelectSibling(message, 1)}
+                      disabled={busy || position === options.length - 1}
+                      title="Next version"
+                    >
+                      <ChevronRight className="h-3 w-3" />
+                    </Button>
+                  </>
+                )}
+                {!busy && message.role === "user" && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 opacity-0 group-hover:opacity-100"
+                    onClick={() => handleEdit(message)}
+                    title="Edit and resend"
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                )}
+                {!busy && canRegenerate && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => handleRegenerate(message)}
+                    title="Regenerate"
+                  >
+                    <RefreshCw className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+            );
+
+            return (
+              <ChatMessage
+                key={message.id}
+                role={message.role}
+                content={message.content}
+                fileActions={message.fileActions}
+                attachments={message.attachments}
+                editor={editor || undefined}
+                footer={footer || undefined}
+              />
+            );
+          })}
           
-          {isLoading && (
+          {busy && (
             <div className="flex gap-3">
               <div className="w-8 h-8 rounded-full bg-gradient-to-br from-primary to-accent flex items-center justify-center">
                 <Bot className="w-5 h-5 text-primary-foreground" />
@@ -218,27 +975,110 @@ const AIChat = ({ projectId, onFileAction }: AIChatProps) => {
         </div>
       </ScrollArea>
 
-      <div className="p-4 border-t">
+      <div
+        className={`p-4 border-t ${isDragging ? "bg-muted" : ""}`}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+      >
+        {pendingFiles.length > 0 && (
+          <div className="mb-2 flex flex-wrap gap-2">
+            {pendingFiles.map((file, index) => (
+              <ChatAttachment
+                key={`${file.name}-${index}`}
+                attachment={file}
+                onRemove={() => setPendingFiles(prev => prev.filter((_, i) => i !== index))}
+              />
+            ))}
+          </div>
+        )}
         <div className="flex gap-2">
-          <Textarea
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyDown={handleKeyDown}
-            placeholder="Describe what you want to build... (Shift+Enter for new line)"
-            className="min-h-[60px] max-h-[200px] resize-none"
-            disabled={isLoading}
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              addFiles(Array.from(e.target.files ?? []));
+              e.target.value = "";
+            }}
           />
           <Button
-            onClick={handleSend}
-            disabled={!input.trim() || isLoading}
-            className="h-[60px] px-6"
+            variant="outline"
+            className="h-[60px] px-3"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={busy || pendingFiles.length >= MAX_ATTACHMENTS}
+            title="Attach images or text files"
           >
-            {isLoading ? (
-              <Loader2 className="w-5 h-5 animate-spin" />
-            ) : (
-              <Send className="w-5 h-5" />
-            )}
+            <Paperclip className="w-5 h-5" />
           </Button>
+          <div className="relative flex-1">
+            {showSuggestions && (
+              <Command
+                shouldFilter={false}
+                value={activeSuggestion.value}
+                onValueChange={(value) => {
+                  const index = suggestions.findIndex(s => s.value === value);
+                  if (index !== -1) setSuggestionIndex(index);
+                }}
+                className="absolute bottom-full left-0 z-10 mb-2 h-auto border shadow-md"
+              >
+                <CommandList>
+                  <CommandGroup heading={trigger?.type === "command" ? "Commands" : "Files"}>
+                    {suggestions.map((suggestion) => (
+                      <CommandItem
+                        key={suggestion.value}
+                        value={suggestion.value}
+                        onSelect={() => applySuggestion(suggestion)}
+                        // Keep focus, and the caret, in the textarea
+                        onMouseDown={(e) => e.preventDefault()}
+                      >
+                        <span className="truncate font-mono text-xs">{suggestion.label}</span>
+                        {suggestion.description && (
+                          <span className="ml-auto pl-4 text-xs text-muted-foreground">
+                            {suggestion.description}
+                          </span>
+                        )}
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                </CommandList>
+              </Command>
+            )}
+            <Textarea
+              ref={textareaRef}
+              value={input}
+              onChange={handleInputChange}
+              onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+              onKeyDown={handleKeyDown}
+              onPaste={handlePaste}
+              placeholder="Describe what you want to build... (/ for commands, @ to mention a file)"
+              className="min-h-[60px] max-h-[200px] resize-none"
+              disabled={busy}
+            />
+          </div>
+          {busy ? (
+            <Button
+              onClick={handleStop}
+              disabled={!streaming && !activeJob}
+              variant="outline"
+              className="h-[60px] px-6"
+              title="Stop"
+            >
+              <Square className="w-5 h-5" />
+            </Button>
+          ) : (
+            <Button
+              onClick={handleSend}
+              disabled={!input.trim() && pendingFiles.length === 0}
+              className="h-[60px] px-6"
+            >
+              <Send className="w-5 h-5" />
+            </Button>
+          )}
         </div>
       </div>
     </div>
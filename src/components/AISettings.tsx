@@ -0,0 +1,263 @@
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, Save } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AI_PROVIDERS,
+  DEFAULT_AI_PROVIDER,
+  MAX_CUSTOM_INSTRUCTIONS,
+  MAX_REPLY_TOKENS,
+  findProvider,
+} from "@/lib/ai-models";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Slider } from "./ui/slider";
+import { Textarea } from "./ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+
+interface AISettingsProps {
+  projectId: string;
+}
+
+const AISettings = ({ projectId }: AISettingsProps) => {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [provider, setProvider] = useState(DEFAULT_AI_PROVIDER);
+  const [model, setModel] = useState(findProvider(DEFAULT_AI_PROVIDER).models[0]);
+  // null leaves the value to the provider's default
+  const [temperature, setTemperature] = useState<number | null>(null);
+  const [maxTokens, setMaxTokens] = useState("");
+  const [instructions, setInstructions] = useState("");
+  const [monthlyQuota, setMonthlyQuota] = useState("");
+
+  const providerOption = findProvider(provider);
+
+  const loadSettings = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("project_ai_settings")
+        .select("*")
+        .eq("project_id", projectId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (data) {
+        setProvider(data.provider);
+        setModel(data.model || findProvider(data.provider).models[0]);
+        setTemperature(data.temperature);
+        setMaxTokens(data.max_tokens ? String(data.max_tokens) : "");
+        setInstructions(data.custom_instructions ?? "");
+        setMonthlyQuota(data.monthly_token_quota ? String(data.monthly_token_quota) : "");
+      }
+    } catch (error) {
+      toast({
+        title: "Error loading AI settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, toast]);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  const handleProviderChange = (value: string) => {
+    setProvider(value);
+    setModel(findProvider(value).models[0]);
+  };
+
+  const handleSave = async () => {
+    const parsedMaxTokens = maxTokens.trim() ? Number(maxTokens) : null;
+    if (
+      parsedMaxTokens !== null &&
+      (!Number.isInteger(parsedMaxTokens) || parsedMaxTokens < 1 || parsedMaxTokens > MAX_REPLY_TOKENS)
+    ) {
+      toast({
+        title: "Invalid max tokens",
+        description: `Enter a whole number from 1 to ${MAX_REPLY_TOKENS.toLocaleString()}, or leave it empty for the model's default`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const parsedQuota = monthlyQuota.trim() ? Number(monthlyQuota) : null;
+    if (parsedQuota !== null && (!Number.isInteger(parsedQuota) || parsedQuota < 1)) {
+      toast({
+        title: "Invalid monthly quota",
+        description: "Enter a whole number of tokens, or leave it empty for no limit",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("project_ai_settings").upsert(
+        {
+          project_id: projectId,
+          provider,
+          model: model.trim() || null,
+          temperature,
+          max_tokens: parsedMaxTokens,
+          custom_instructions: instructions.trim() || null,
+          monthly_token_quota: parsedQuota,
+        },
+        { onConflict: "project_id" }
+      );
+
+      if (error) throw error;
+
+      toast({
+        title: "AI settings saved",
+        description: "New chat messages will use these settings",
+      });
+    } catch (error) {
+      toast({
+        title: "Error saving AI settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="ai-provider">Provider</Label>
+          <Select value={provider} onValueChange={handleProviderChange}>
+            <SelectTrigger id="ai-provider">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {AI_PROVIDERS.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="ai-model">Model</Label>
+          {providerOption.freeformModel ? (
+            <Input
+              id="ai-model"
+              placeholder={providerOption.models[0]}
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+            />
+          ) : (
+            <Select value={model} onValueChange={setModel}>
+              <SelectTrigger id="ai-model">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {/* Keep a model saved earlier selectable even if it is no longer listed */}
+                {[...new Set([...providerOption.models, model])].map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label>Temperature</Label>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">
+              {temperature === null ? "Model default" : temperature.toFixed(1)}
+            </span>
+            {temperature !== null && (
+              <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => setTemperature(null)}>
+                Reset
+              </Button>
+            )}
+          </div>
+        </div>
+        <Slider
+          min={0}
+          max={2}
+          step={0.1}
+          value={[temperature ?? 1]}
+          onValueChange={([value]) => setTemperature(value)}
+        />
+        <p className="text-xs text-muted-foreground">
+          Lower values give more predictable code; higher values more varied answers
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="ai-max-tokens">Max tokens</Label>
+        <Input
+          id="ai-max-tokens"
+          type="number"
+          min={1}
+          max={MAX_REPLY_TOKENS}
+          placeholder="Model default"
+          value={maxTokens}
+          onChange={(e) => setMaxTokens(e.target.value)}
+        />
+        <p className="text-xs text-muted-foreground">Upper limit on the length of each reply</p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="ai-monthly-quota">Monthly token quota</Label>
+        <Input
+          id="ai-monthly-quota"
+          type="number"
+          min={1}
+          placeholder="No limit"
+          value={monthlyQuota}
+          onChange={(e) => setMonthlyQuota(e.target.value)}
+        />
+        <p className="text-xs text-muted-foreground">
+          Once the project uses this many tokens in a calendar month, AI requests are refused until the next month
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="ai-instructions">Custom instructions</Label>
+        <Textarea
+          id="ai-instructions"
+          rows={8}
+          maxLength={MAX_CUSTOM_INSTRUCTIONS}
+          placeholder={"e.g. Use TypeScript and Tailwind CSS.\nPrefer function components with hooks."}
+          value={instructions}
+          onChange={(e) => setInstructions(e.target.value)}
+        />
+        <p className="text-xs text-muted-foreground">
+          Coding conventions, framework choices and anything else the assistant should always follow
+          ({instructions.length}/{MAX_CUSTOM_INSTRUCTIONS})
+        </p>
+      </div>
+
+      <Button onClick={handleSave} disabled={saving}>
+        {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+        Save settings
+      </Button>
+    </div>
+  );
+};
+
+export default AISettings;
@@ -0,0 +1,69 @@
+import { useEffect, useState } from "react";
+import { FileText, X } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { ATTACHMENTS_BUCKET, isImageAttachment, type Attachment } from "@/lib/attachments";
+
+interface ChatAttachmentProps {
+  /** A stored attachment, or a file that has not been uploaded yet */
+  attachment: Attachment | File;
+  onRemove?: () => void;
+}
+
+const ChatAttachment = ({ attachment, onRemove }: ChatAttachmentProps) => {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const isFile = attachment instanceof File;
+  const mimeType = isFile ? attachment.type : attachment.mimeType;
+  const isImage = isImageAttachment({ mimeType });
+
+  useEffect(() => {
+    if (!isImage) return;
+
+    if (attachment instanceof File) {
+      const url = URL.createObjectURL(attachment);
+      setImageUrl(url);
+      return () => URL.revokeObjectURL(url);
+    }
+
+    let cancelled = false;
+    supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .createSignedUrl(attachment.path, 60 * 60)
+      .then(({ data }) => {
+        if (!cancelled && data) setImageUrl(data.signedUrl);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment, isImage]);
+
+  return (
+    <div className="relative flex items-center gap-2 rounded-md border bg-background px-2 py-1 text-xs text-foreground">
+      {isImage ? (
+        imageUrl ? (
+          <a href={imageUrl} target="_blank" rel="noreferrer">
+            <img src={imageUrl} alt={attachment.name} className="h-12 w-12 rounded object-cover" />
+          </a>
+        ) : (
+          <div className="h-12 w-12 rounded bg-muted animate-pulse" />
+        )
+      ) : (
+        <FileText className="h-4 w-4 text-muted-foreground" />
+      )}
+      <span className="max-w-[10rem] truncate" title={attachment.name}>
+        {attachment.name}
+      </span>
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="text-muted-foreground hover:text-foreground"
+          title={`Remove ${attachment.name}`}
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ChatAttachment;
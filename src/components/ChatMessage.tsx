@@ -1,26 +1,62 @@
 import { Bot, User } from "lucide-react";
+import MarkdownContent from "./MarkdownContent";
+import FileActionCard from "./FileActionCard";
+import ChatAttachment from "./ChatAttachment";
+import type { MessageFileAction } from "@/lib/file-actions";
+import type { Attachment } from "@/lib/attachments";
 
 interface ChatMessageProps {
   role: "user" | "assistant";
   content: string;
+  fileActions?: MessageFileAction[];
+  attachments?: Attachment[];
+  /** Shown in place of the bubble, e.g. a form for editing the message */
+  editor?: React.ReactNode;
+  /** Controls under the bubble */
+  footer?: React.ReactNode;
 }
 
-const ChatMessage = ({ role, content }: ChatMessageProps) => {
+const ChatMessage = ({ role, content, fileActions = [], attachments = [], editor, footer }: ChatMessageProps) => {
   const isUser = role === "user";
-  
+
   return (
-    <div className={`flex gap-3 animate-fade-in ${isUser ? "justify-end" : "justify-start"}`}>
+    <div className={`group flex gap-3 animate-fade-in ${isUser ? "justify-end" : "justify-start"}`}>
       {!isUser && (
         <div className="w-8 h-8 rounded-full bg-gradient-to-br from-primary to-accent flex items-center justify-center flex-shrink-0">
           <Bot className="w-5 h-5 text-primary-foreground" />
         </div>
       )}
-      <div className={`max-w-[80%] rounded-2xl px-4 py-3 ${
-        isUser 
-          ? "bg-primary text-primary-foreground" 
-          : "bg-secondary text-secondary-foreground"
-      }`}>
-        <p className="text-sm whitespace-pre-wrap break-words">{content}</p>
+      <div className={`flex flex-col gap-1 ${editor ? "w-[80%]" : "max-w-[80%]"} ${isUser ? "items-end" : "items-start"}`}>
+        {attachments.length > 0 && !editor && (
+          <div className={`flex flex-wrap gap-2 ${isUser ? "justify-end" : "justify-start"}`}>
+            {attachments.map((attachment) => (
+              <ChatAttachment key={attachment.path} attachment={attachment} />
+            ))}
+          </div>
+        )}
+        {editor ?? ((content || !isUser) && (
+          <div className={`max-w-full rounded-2xl px-4 py-3 ${
+            isUser
+              ? "bg-primary text-primary-foreground"
+              : "bg-secondary text-secondary-foreground"
+          }`}>
+            {isUser ? (
+              <p className="text-sm whitespace-pre-wrap break-words">{content}</p>
+            ) : (
+              <>
+                {content && <MarkdownContent content={content} />}
+                {fileActions.length > 0 && (
+                  <div className={`space-y-2 ${content ? "mt-3" : ""}`}>
+                    {fileActions.map((action, index) => (
+                      <FileActionCard key={index} action={action} />
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        ))}
+        {footer}
       </div>
       {isUser && (
         <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center flex-shrink-0">
@@ -0,0 +1,371 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Bookmark, Bot, GitCompare, Loader2, Plus, RotateCcw, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { diffFileSets } from "@/lib/file-diff";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { ScrollArea } from "./ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "./ui/sheet";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "./ui/alert-dialog";
+import DiffView from "./DiffView";
+
+interface Checkpoint {
+  id: string;
+  name: string;
+  kind: string;
+  created_at: string;
+}
+
+interface CheckpointPanelProps {
+  projectId: string;
+  files: { path: string; content: string | null }[];
+  onRestored: () => Promise<void>;
+}
+
+// Pseudo checkpoint id for the live contents of `files`
+const CURRENT = "current";
+
+const CheckpointPanel = ({ projectId, files, onRestored }: CheckpointPanelProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [checkpoints, setCheckpoints] = useState<Checkpoint[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [name, setName] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [restoring, setRestoring] = useState<string | null>(null);
+  const [compareFrom, setCompareFrom] = useState<string>("");
+  const [compareTo, setCompareTo] = useState<string>(CURRENT);
+  const [snapshots, setSnapshots] = useState<Record<string, Map<string, string | null>>>({});
+  // Checkpoints whose files are loaded or on their way
+  const requestedSnapshots = useRef(new Set<string>());
+
+  const loadCheckpoints = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("checkpoints")
+        .select("id, name, kind, created_at")
+        .eq("project_id", projectId)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setCheckpoints(data || []);
+      if (data?.length) setCompareFrom((prev) => prev || data[0].id);
+    } catch (error) {
+      toast({
+        title: "Error loading checkpoints",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, toast]);
+
+  const loadSnapshot = useCallback(async (checkpointId: string) => {
+    requestedSnapshots.current.add(checkpointId);
+    try {
+      const { data, error } = await supabase
+        .from("checkpoint_files")
+        .select("path, content")
+        .eq("checkpoint_id", checkpointId);
+
+      if (error) throw error;
+      setSnapshots((prev) => ({
+        ...prev,
+        [checkpointId]: new Map((data || []).map((f) => [f.path, f.content])),
+      }));
+    } catch (error) {
+      requestedSnapshots.current.delete(checkpointId);
+      toast({
+        title: "Error loading checkpoint",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    loadCheckpoints();
+  }, [open, loadCheckpoints]);
+
+  useEffect(() => {
+    [compareFrom, compareTo]
+      .filter((id) => id && id !== CURRENT && !requestedSnapshots.current.has(id))
+      .forEach(loadSnapshot);
+  }, [compareFrom, compareTo, loadSnapshot]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setCreating(true);
+    try {
+      const { error } = await supabase.rpc("create_checkpoint", {
+        _project_id: projectId,
+        _name: name.trim(),
+        _kind: "manual",
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Checkpoint created",
+        description: `Saved ${files.length} file(s) as "${name.trim()}"`,
+      });
+      setName("");
+      await loadCheckpoints();
+    } catch (error) {
+      toast({
+        title: "Error creating checkpoint",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRestore = async (checkpoint: Checkpoint) => {
+    setRestoring(checkpoint.id);
+    try {
+      const { error } = await supabase.rpc("restore_checkpoint", {
+        _checkpoint_id: checkpoint.id,
+      });
+
+      if (error) throw error;
+
+      await onRestored();
+      toast({
+        title: "Checkpoint restored",
+        description: `Project files reset to "${checkpoint.name}"`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error restoring checkpoint",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const handleDelete = async (checkpoint: Checkpoint) => {
+    try {
+      const { error } = await supabase.from("checkpoints").delete().eq("id", checkpoint.id);
+
+      if (error) throw error;
+      setCheckpoints((prev) => prev.filter((c) => c.id !== checkpoint.id));
+    } catch (error) {
+      toast({
+        title: "Error deleting checkpoint",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const comparison = useMemo(() => {
+    const snapshotFor = (id: string) =>
+      id === CURRENT ? new Map(files.map((f) => [f.path, f.content])) : snapshots[id];
+    const from = compareFrom && snapshotFor(compareFrom);
+    const to = compareTo && snapshotFor(compareTo);
+    return from && to ? diffFileSets(from, to) : null;
+  }, [compareFrom, compareTo, snapshots, files]);
+
+  const renderOptions = () => (
+    <>
+      <SelectItem value={CURRENT}>Current files</SelectItem>
+      {checkpoints.map((checkpoint) => (
+        <SelectItem key={checkpoint.id} value={checkpoint.id}>
+          {checkpoint.name} · {new Date(checkpoint.created_at).toLocaleString()}
+        </SelectItem>
+      ))}
+    </>
+  );
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="icon" title="Checkpoints">
+          <Bookmark className="h-4 w-4" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-3xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Checkpoints</SheetTitle>
+          <SheetDescription>
+            Snapshots of every project file. One is taken automatically before AI changes are applied.
+          </SheetDescription>
+        </SheetHeader>
+
+        <Tabs defaultValue="list" className="flex-1 flex flex-col min-h-0">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="list" className="flex items-center gap-2">
+              <Bookmark className="h-4 w-4" />
+              Checkpoints
+            </TabsTrigger>
+            <TabsTrigger value="compare" className="flex items-center gap-2">
+              <GitCompare className="h-4 w-4" />
+              Compare
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="list" className="flex-1 flex flex-col min-h-0 space-y-4">
+            <form onSubmit={handleCreate} className="flex gap-2">
+              <Input
+                placeholder="Checkpoint name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+              <Button type="submit" disabled={creating || !name.trim()}>
+                {creating ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Plus className="h-4 w-4 mr-2" />
+                )}
+                Create
+              </Button>
+            </form>
+
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : checkpoints.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No checkpoints yet</p>
+            ) : (
+              <ScrollArea className="flex-1 rounded-md border">
+                <div className="divide-y">
+                  {checkpoints.map((checkpoint) => (
+                    <div key={checkpoint.id} className="px-3 py-2 flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          {checkpoint.kind === "auto" && <Bot className="h-4 w-4 text-primary shrink-0" />}
+                          <span className="font-medium truncate">{checkpoint.name}</span>
+                          <Badge variant="outline">{checkpoint.kind === "auto" ? "Auto" : "Manual"}</Badge>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(checkpoint.created_at).toLocaleString()}
+                        </p>
+                      </div>
+                      <div className="flex gap-1 shrink-0">
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="outline" size="sm" disabled={restoring !== null}>
+                              {restoring === checkpoint.id ? (
+                                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                              ) : (
+                                <RotateCcw className="h-4 w-4 mr-2" />
+                              )}
+                              Restore
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Restore checkpoint?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Every file will be reset to "{checkpoint.name}". Files created after
+                                this checkpoint will be deleted.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleRestore(checkpoint)}>
+                                Restore
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => handleDelete(checkpoint)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </TabsContent>
+
+          <TabsContent value="compare" className="flex-1 flex flex-col min-h-0 space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>From</Label>
+                <Select value={compareFrom} onValueChange={setCompareFrom}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a checkpoint" />
+                  </SelectTrigger>
+                  <SelectContent>{renderOptions()}</SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>To</Label>
+                <Select value={compareTo} onValueChange={setCompareTo}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a checkpoint" />
+                  </SelectTrigger>
+                  <SelectContent>{renderOptions()}</SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <ScrollArea className="flex-1">
+              {!comparison ? (
+                <p className="text-sm text-muted-foreground">Select two snapshots to compare</p>
+              ) : comparison.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No differences</p>
+              ) : (
+                <div className="space-y-6">
+                  {comparison.map((change) => (
+                    <div key={change.path} className="space-y-2">
+                      <div className="flex items-center gap-2">
+                        <Badge variant={change.status === "removed" ? "destructive" : "secondary"}>
+                          {change.status}
+                        </Badge>
+                        <span className="font-mono text-sm">{change.path}</span>
+                      </div>
+                      <DiffView hunks={change.hunks} />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default CheckpointPanel;
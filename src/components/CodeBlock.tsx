@@ -0,0 +1,52 @@
+import { useMemo, useState } from "react";
+import { Check, Copy } from "lucide-react";
+import { Button } from "./ui/button";
+import { highlightLines } from "@/lib/highlight";
+
+interface CodeBlockProps {
+  code: string;
+  language: string;
+}
+
+const CodeBlock = ({ code, language }: CodeBlockProps) => {
+  const [copied, setCopied] = useState(false);
+  const lines = useMemo(() => highlightLines(code, language), [code, language]);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(code);
+    setCopied(true);
+    window.setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="my-2 overflow-hidden rounded-md border bg-background text-foreground">
+      <div className="flex items-center justify-between border-b bg-muted px-3 py-1 text-xs text-muted-foreground">
+        <span className="font-mono">{language}</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={handleCopy}
+          title={copied ? "Copied" : "Copy code"}
+        >
+          {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+        </Button>
+      </div>
+      <pre className="overflow-x-auto p-3 font-mono text-xs leading-5">
+        <code>
+          {lines.map((tokens, index) => (
+            <span key={index} className="block min-h-[1.25rem] whitespace-pre">
+              {tokens.map((token, tokenIndex) => (
+                <span key={tokenIndex} className={token.className || undefined}>
+                  {token.text}
+                </span>
+              ))}
+            </span>
+          ))}
+        </code>
+      </pre>
+    </div>
+  );
+};
+
+export default CodeBlock;
@@ -0,0 +1,193 @@
+import { useCallback, useEffect, useRef } from "react";
+import { EditorState, Extension } from "@codemirror/state";
+import {
+  EditorView,
+  crosshairCursor,
+  drawSelection,
+  dropCursor,
+  highlightActiveLine,
+  highlightActiveLineGutter,
+  highlightSpecialChars,
+  keymap,
+  lineNumbers,
+  rectangularSelection,
+} from "@codemirror/view";
+import { defaultKeymap, history, historyKeymap, indentWithTab } from "@codemirror/commands";
+import {
+  bracketMatching,
+  defaultHighlightStyle,
+  foldGutter,
+  foldKeymap,
+  indentOnInput,
+  syntaxHighlighting,
+} from "@codemirror/language";
+import { highlightSelectionMatches, searchKeymap } from "@codemirror/search";
+import {
+  autocompletion,
+  closeBrackets,
+  closeBracketsKeymap,
+  completionKeymap,
+} from "@codemirror/autocomplete";
+import { linter, lintGutter, lintKeymap } from "@codemirror/lint";
+import { javascript } from "@codemirror/lang-javascript";
+import { css } from "@codemirror/lang-css";
+import { html } from "@codemirror/lang-html";
+import { json } from "@codemirror/lang-json";
+import { requestDiagnostics } from "@/lib/diagnostics";
+
+export interface EditorLocation {
+  line: number;
+  column?: number;
+}
+
+interface CodeEditorProps {
+  docId: string;
+  path: string;
+  language: string;
+  value: string;
+  /** Moves the cursor here whenever a new object is passed */
+  location?: EditorLocation;
+  onChange: (value: string) => void;
+  onSave: () => void;
+}
+
+const languageExtension = (language: string, path: string): Extension => {
+  const extension = path.split(".").pop()?.toLowerCase();
+
+  if (language === "typescript" || extension === "ts") return javascript({ typescript: true });
+  if (language === "tsx" || extension === "tsx") return javascript({ typescript: true, jsx: true });
+  if (language === "jsx" || extension === "jsx") return javascript({ jsx: true });
+  if (language === "javascript" || extension === "js" || extension === "mjs") return javascript();
+  if (language === "css" || extension === "css") return css();
+  if (language === "html" || extension === "html") return html();
+  if (language === "json" || extension === "json") return json();
+  return [];
+};
+
+const theme = EditorView.theme({
+  "&": { height: "100%", fontSize: "0.875rem" },
+  ".cm-scroller": { fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace" },
+  ".cm-gutters": { backgroundColor: "transparent", borderRight: "1px solid hsl(var(--border))" },
+});
+
+const CodeEditor = ({ docId, path, language, value, location, onChange, onSave }: CodeEditorProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  // Editor state per open document, so undo history and selection survive tab switches
+  const statesRef = useRef<Map<string, EditorState>>(new Map());
+  // The document shown, null until the first one is loaded
+  const docIdRef = useRef<string | null>(null);
+  // Callbacks change every render; extensions read them through refs
+  const onChangeRef = useRef(onChange);
+  const onSaveRef = useRef(onSave);
+  onChangeRef.current = onChange;
+  onSaveRef.current = onSave;
+
+  const createState = useCallback(
+    (doc: string) =>
+      EditorState.create({
+        doc,
+        extensions: [
+          lineNumbers(),
+          highlightActiveLineGutter(),
+          highlightSpecialChars(),
+          history(),
+          foldGutter(),
+          drawSelection(),
+          dropCursor(),
+          EditorState.allowMultipleSelections.of(true),
+          indentOnInput(),
+          syntaxHighlighting(defaultHighlightStyle, { fallback: true }),
+          bracketMatching(),
+          closeBrackets(),
+          autocompletion(),
+          rectangularSelection(),
+          crosshairCursor(),
+          highlightActiveLine(),
+          highlightSelectionMatches(),
+          lintGutter(),
+          linter((view) =>
+            requestDiagnostics(view.state.doc.toString(), language, path)
+          ),
+          keymap.of([
+            {
+              key: "Mod-s",
+              preventDefault: true,
+              run: () => {
+                onSaveRef.current();
+                return true;
+              },
+            },
+            ...closeBracketsKeymap,
+            ...defaultKeymap,
+            ...searchKeymap,
+            ...historyKeymap,
+            ...foldKeymap,
+            ...completionKeymap,
+            ...lintKeymap,
+            indentWithTab,
+          ]),
+          languageExtension(language, path),
+          theme,
+          EditorView.updateListener.of((update) => {
+            if (update.docChanged) {
+              onChangeRef.current(update.state.doc.toString());
+            }
+          }),
+        ],
+      }),
+    [language, path]
+  );
+
+  useEffect(() => {
+    const view = new EditorView({ parent: containerRef.current! });
+    viewRef.current = view;
+
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+      docIdRef.current = null;
+    };
+  }, []);
+
+  // Load the first document, and switch documents when the active tab changes
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || docIdRef.current === docId) return;
+
+    if (docIdRef.current) statesRef.current.set(docIdRef.current, view.state);
+    docIdRef.current = docId;
+
+    const saved = statesRef.current.get(docId);
+    view.setState(saved && saved.doc.toString() === value ? saved : createState(value));
+  }, [docId, value, createState]);
+
+  // Pick up content changed outside the editor, e.g. an applied AI change
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || view.state.doc.toString() === value) return;
+
+    view.dispatch({
+      changes: { from: 0, to: view.state.doc.length, insert: value },
+    });
+  }, [value]);
+
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || !location) return;
+
+    const { doc } = view.state;
+    const line = doc.line(Math.min(Math.max(location.line, 1), doc.lines));
+    const pos = Math.min(line.from + Math.max((location.column ?? 1) - 1, 0), line.to);
+
+    view.dispatch({
+      selection: { anchor: pos },
+      effects: EditorView.scrollIntoView(pos, { y: "center" }),
+    });
+    view.focus();
+  }, [location]);
+
+  return <div ref={containerRef} className="h-full overflow-hidden" />;
+};
+
+export default CodeEditor;
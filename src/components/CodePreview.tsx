@@ -1,8 +1,37 @@
-import { useEffect, useState } from "react";
-import { Eye, Code, RefreshCw } from "lucide-react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { AlertTriangle, Columns3, Eye, Code, RefreshCw, RotateCw, X } from "lucide-react";
 import { Button } from "./ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
-import { ScrollArea } from "./ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Input } from "./ui/input";
+import FileTree from "./FileTree";
+import DeviceFrame from "./DeviceFrame";
+import { useIsMobile } from "@/hooks/use-mobile";
+import {
+  VIEWPORT_PRESETS,
+  Viewport,
+  ViewportMode,
+  MAX_VIEWPORT_SIZE,
+  MIN_VIEWPORT_SIZE,
+  ZOOM_LEVELS,
+  clampViewportSize,
+  rotate,
+} from "@/lib/viewports";
+import {
+  PREVIEW_MESSAGE_SOURCE,
+  PreviewError,
+  PreviewEvent,
+  PreviewFile,
+  SourceLocation,
+  buildPreview,
+  buildStylesheets,
+  classifyChange,
+  defaultPage,
+  findSourceLocation,
+  mapStackPaths,
+  isHtmlFile,
+  withScaffoldPage,
+} from "@/lib/preview";
 
 interface FileItem {
   id: string;
@@ -17,66 +46,225 @@ interface CodePreviewProps {
   files: FileItem[];
   selectedFile: FileItem | null;
   onFileSelect: (file: FileItem) => void;
+  onCreateFile: (path: string) => Promise<void>;
+  onMovePath: (from: string, to: string, isFolder: boolean) => Promise<void>;
+  onDeletePath: (path: string, isFolder: boolean) => Promise<void>;
+  onPreviewEvent: (event: PreviewEvent, location?: SourceLocation) => void;
+  onPreviewReload: () => void;
 }
 
-const CodePreview = ({ files, selectedFile, onFileSelect }: CodePreviewProps) => {
+const EMPTY_PREVIEW = `
+  <!DOCTYPE html>
+  <html lang="en">
+  <head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Preview</title>
+  </head>
+  <body>
+    <div style="display: flex; align-items: center; justify-content: center; min-height: 100vh; font-family: system-ui; color: #666;">
+      <div style="text-align: center;">
+        <h1 style="font-size: 2rem; margin-bottom: 1rem;">No HTML file found</h1>
+        <p>Create an index.html file to see the preview</p>
+      </div>
+    </div>
+  </body>
+  </html>
+`;
+
+// Rapid edits (an AI turn applying several files) reload the page once
+const PREVIEW_RELOAD_DELAY = 300;
+
+const CodePreview = ({
+  files,
+  selectedFile,
+  onFileSelect,
+  onCreateFile,
+  onMovePath,
+  onDeletePath,
+  onPreviewEvent,
+  onPreviewReload,
+}: CodePreviewProps) => {
   const [previewHtml, setPreviewHtml] = useState("");
   const [activeTab, setActiveTab] = useState("preview");
   const [refreshKey, setRefreshKey] = useState(0);
 
+  const [currentPage, setCurrentPage] = useState<string | null>(null);
+  const [buildErrors, setBuildErrors] = useState<PreviewError[]>([]);
+  const [errorsDismissed, setErrorsDismissed] = useState(false);
+  const isMobile = useIsMobile();
+  const [viewportMode, setViewportMode] = useState<ViewportMode | null>(null);
+  const [customViewport, setCustomViewport] = useState({ width: 1024, height: 768 });
+  const [rotated, setRotated] = useState(false);
+  const [zoom, setZoom] = useState<number | "fit">("fit");
+  const [multiViewport, setMultiViewport] = useState(false);
+  // One iframe per visible viewport; the first one feeds the console
+  const iframeRefs = useRef<(HTMLIFrameElement | null)[]>([]);
+  // Blob URLs of the preview currently on screen
+  const objectUrlsRef = useRef<string[]>([]);
+  const sourcePathsRef = useRef<Record<string, string>>({});
+  // Asset URLs of the preview on screen, which stylesheet swaps keep using
+  const assetsRef = useRef<Record<string, string>>({});
+  // Files and page the preview on screen was built from
+  const builtRef = useRef<{ files: PreviewFile[]; page: string | null } | null>(null);
+  // Stylesheets swapped in since the last reload, for iframes that mount later
+  const hotStylesheetsRef = useRef<Record<string, string> | null>(null);
+  const scrollRef = useRef<{ x: number; y: number } | null>(null);
+  // The message listener and reload timer outlive renders; they read the latest callbacks from here
+  const onPreviewEventRef = useRef(onPreviewEvent);
+  onPreviewEventRef.current = onPreviewEvent;
+  const onPreviewReloadRef = useRef(onPreviewReload);
+  onPreviewReloadRef.current = onPreviewReload;
+
+  // React projects without a page of their own get a generated index.html
+  const previewFiles = useMemo(() => withScaffoldPage(files), [files]);
+
+  const pages = useMemo(
+    () => previewFiles.map(f => f.path).filter(isHtmlFile).sort(),
+    [previewFiles]
+  );
+
   useEffect(() => {
-    generatePreview();
-  }, [files]);
+    setCurrentPage(prev => (prev && pages.includes(prev) ? prev : defaultPage(previewFiles)));
+  }, [pages, previewFiles]);
 
-  const generatePreview = () => {
-    // Find HTML file
-    const htmlFile = files.find(f => 
-      f.path.endsWith('.html') || f.language === 'html'
-    );
-    
-    // Find CSS files
-    const cssFiles = files.filter(f => 
-      f.path.endsWith('.css') || f.language === 'css'
-    );
-    
-    // Find JS files
-    const jsFiles = files.filter(f => 
-      f.path.endsWith('.js') || f.language === 'javascript'
+  const generatePreview = useCallback(() => {
+    const page = currentPage && pages.includes(currentPage) ? currentPage : defaultPage(previewFiles);
+    // Reloads keep the reader's place; navigating to another page starts at the top
+    const scroll = builtRef.current?.page === currentPage ? scrollRef.current : null;
+    builtRef.current = { files: previewFiles, page: currentPage };
+    hotStylesheetsRef.current = null;
+    scrollRef.current = scroll;
+
+    if (!page) {
+      setPreviewHtml(EMPTY_PREVIEW);
+      setBuildErrors([]);
+      onPreviewReloadRef.current();
+      return;
+    }
+
+    // Stylesheets, scripts and images are resolved from `files` as the page references them
+    const build = buildPreview(previewFiles, page, { scroll: scroll ?? undefined });
+    objectUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
+    objectUrlsRef.current = build.objectUrls;
+    sourcePathsRef.current = build.sourcePaths;
+    assetsRef.current = build.assets;
+    onPreviewReloadRef.current();
+    setPreviewHtml(build.html);
+    setBuildErrors(build.errors);
+    setErrorsDismissed(false);
+  }, [currentPage, pages, previewFiles]);
+
+  const postStylesheets = useCallback((iframe: HTMLIFrameElement | null) => {
+    if (!iframe || !hotStylesheetsRef.current) return;
+    iframe.contentWindow?.postMessage(
+      { source: PREVIEW_MESSAGE_SOURCE, type: "css-update", stylesheets: hotStylesheetsRef.current },
+      "*"
     );
+  }, []);
 
-    let html = htmlFile?.content || `
-      <!DOCTYPE html>
-      <html lang="en">
-      <head>
-        <meta charset="UTF-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Preview</title>
-      </head>
-      <body>
-        <div style="display: flex; align-items: center; justify-content: center; min-height: 100vh; font-family: system-ui; color: #666;">
-          <div style="text-align: center;">
-            <h1 style="font-size: 2rem; margin-bottom: 1rem;">No HTML file found</h1>
-            <p>Create an index.html file to see the preview</p>
-          </div>
-        </div>
-      </body>
-      </html>
-    `;
-
-    // Inject CSS
-    if (cssFiles.length > 0) {
-      const cssContent = cssFiles.map(f => f.content).join('\n');
-      html = html.replace('</head>', `<style>${cssContent}</style></head>`);
+  // CSS-only edits restyle the running page instead of reloading it
+  const swapStylesheets = useCallback(() => {
+    const build = buildStylesheets(previewFiles, assetsRef.current);
+    // Iframes that mount later load the replaced stylesheets before the swap,
+    // so those are only revoked on the next reload
+    objectUrlsRef.current.push(...build.objectUrls);
+    Object.assign(sourcePathsRef.current, build.sourcePaths);
+    builtRef.current = { files: previewFiles, page: currentPage };
+    hotStylesheetsRef.current = build.stylesheets;
+    iframeRefs.current.forEach(postStylesheets);
+  }, [currentPage, previewFiles, postStylesheets]);
+
+  useEffect(() => {
+    const built = builtRef.current;
+    if (!built || built.page !== currentPage) {
+      generatePreview();
+      return;
     }
 
-    // Inject JS
-    if (jsFiles.length > 0) {
-      const jsContent = jsFiles.map(f => f.content).join('\n');
-      html = html.replace('</body>', `<script>${jsContent}</script></body>`);
+    const change = classifyChange(built.files, previewFiles);
+    if (change === "none") return;
+    if (change === "styles") {
+      swapStylesheets();
+      return;
     }
 
-    setPreviewHtml(html);
-  };
+    const timer = window.setTimeout(generatePreview, PREVIEW_RELOAD_DELAY);
+    return () => window.clearTimeout(timer);
+  }, [previewFiles, currentPage, generatePreview, swapStylesheets]);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      const frame = iframeRefs.current.findIndex(iframe => iframe && iframe.contentWindow === event.source);
+      if (frame === -1 || event.data?.source !== PREVIEW_MESSAGE_SOURCE) return;
+
+      const { source: _source, ...data } = event.data;
+      if (data.type === "navigate") {
+        if (pages.includes(data.path)) setCurrentPage(data.path);
+        return;
+      }
+      // Side-by-side viewports run the same page; report its output once
+      if (frame !== 0) return;
+      if (data.type === "scroll") {
+        scrollRef.current = { x: data.x, y: data.y };
+        return;
+      }
+
+      const previewEvent = data as PreviewEvent;
+      const location =
+        previewEvent.type === "error" && sourcePathsRef.current[previewEvent.url]
+          ? {
+              path: sourcePathsRef.current[previewEvent.url],
+              line: previewEvent.line,
+              column: previewEvent.column,
+            }
+          : previewEvent.type !== "network"
+            ? findSourceLocation(previewEvent.stack, sourcePathsRef.current)
+            : undefined;
+      if (previewEvent.type !== "network" && previewEvent.stack) {
+        previewEvent.stack = mapStackPaths(previewEvent.stack, sourcePathsRef.current);
+      }
+      onPreviewEventRef.current(previewEvent, location);
+    };
+
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, [pages]);
+
+  useEffect(() => {
+    return () => objectUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
+  }, []);
+
+  // Until the user picks a viewport, small screens preview as a phone
+  const mode = viewportMode ?? (isMobile ? "phone" : "responsive");
+
+  const viewports: Viewport[] = multiViewport
+    ? Object.values(VIEWPORT_PRESETS)
+    : mode === "responsive"
+      ? []
+      : [
+          mode === "custom"
+            ? {
+                label: "Custom",
+                width: clampViewportSize(customViewport.width),
+                height: clampViewportSize(customViewport.height),
+              }
+            : VIEWPORT_PRESETS[mode],
+        ];
+
+  const renderIframe = (index: number) => (
+    <iframe
+      ref={(iframe) => {
+        iframeRefs.current[index] = iframe;
+      }}
+      key={refreshKey}
+      srcDoc={previewHtml}
+      onLoad={(e) => postStylesheets(e.currentTarget)}
+      className="w-full h-full border-0 bg-white"
+      sandbox="allow-scripts allow-forms allow-modals allow-popups allow-same-origin"
+      title="Preview"
+    />
+  );
 
   const handleRefresh = () => {
     generatePreview();
@@ -112,46 +300,168 @@ const CodePreview = ({ files, selectedFile, onFileSelect }: CodePreviewProps) =>
       </div>
 
       <Tabs value={activeTab} className="flex-1 flex flex-col">
-        <TabsContent value="preview" className="flex-1 m-0 p-0">
-          <iframe
-            key={refreshKey}
-            srcDoc={previewHtml}
-            className="w-full h-full border-0"
-            sandbox="allow-scripts allow-forms allow-modals allow-popups allow-same-origin"
-            title="Preview"
-          />
-        </TabsContent>
+        <TabsContent value="preview" className="flex-1 m-0 p-0 flex flex-col">
+          <div className="px-4 py-2 border-b flex flex-wrap items-center gap-2">
+            {pages.length > 1 && (
+              <Select value={currentPage ?? undefined} onValueChange={setCurrentPage}>
+                <SelectTrigger className="h-8 w-48 font-mono text-xs" title="Page">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {pages.map(page => (
+                    <SelectItem key={page} value={page} className="font-mono text-xs">
+                      {page}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <div className="ml-auto flex flex-wrap items-center gap-2">
+              {!multiViewport && (
+                <Select value={mode} onValueChange={(value) => setViewportMode(value as ViewportMode)}>
+                  <SelectTrigger className="h-8 w-32 text-xs" title="Viewport">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="responsive" className="text-xs">Fill panel</SelectItem>
+                    {Object.entries(VIEWPORT_PRESETS).map(([id, preset]) => (
+                      <SelectItem key={id} value={id} className="text-xs">
+                        {preset.label}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value="custom" className="text-xs">Custom</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
 
-        <TabsContent value="files" className="flex-1 m-0">
-          <ScrollArea className="h-full">
-            <div className="p-4 space-y-2">
-              {files.length === 0 ? (
-                <div className="text-center text-muted-foreground py-12">
-                  <Code className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                  <p>No files yet</p>
+              {!multiViewport && mode === "custom" && (
+                <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <Input
+                    type="number"
+                    min={MIN_VIEWPORT_SIZE}
+                    max={MAX_VIEWPORT_SIZE}
+                    className="h-8 w-20 text-xs"
+                    value={customViewport.width}
+                    title="Width"
+                    onChange={(e) =>
+                      setCustomViewport(prev => ({ ...prev, width: Number(e.target.value) }))
+                    }
+                  />
+                  ×
+                  <Input
+                    type="number"
+                    min={MIN_VIEWPORT_SIZE}
+                    max={MAX_VIEWPORT_SIZE}
+                    className="h-8 w-20 text-xs"
+                    value={customViewport.height}
+                    title="Height"
+                    onChange={(e) =>
+                      setCustomViewport(prev => ({ ...prev, height: Number(e.target.value) }))
+                    }
+                  />
                 </div>
-              ) : (
-                files.map((file) => (
-                  <div
-                    key={file.id}
-                    className={`p-3 rounded-lg border cursor-pointer transition-colors ${
-                      selectedFile?.id === file.id
-                        ? "bg-primary text-primary-foreground border-primary"
-                        : "hover:bg-muted"
-                    }`}
-                    onClick={() => onFileSelect(file)}
+              )}
+
+              {viewports.length > 0 && (
+                <>
+                  <Button
+                    variant={rotated ? "secondary" : "ghost"}
+                    size="icon"
+                    className="h-8 w-8"
+                    title="Rotate"
+                    onClick={() => setRotated(prev => !prev)}
                   >
-                    <div className="font-mono text-sm font-semibold mb-1">
-                      {file.path}
-                    </div>
-                    <div className="text-xs opacity-70">
-                      {file.language} • {file.content?.length || 0} characters
-                    </div>
-                  </div>
-                ))
+                    <RotateCw className="h-4 w-4" />
+                  </Button>
+                  <Select value={String(zoom)} onValueChange={(value) => setZoom(value === "fit" ? "fit" : Number(value))}>
+                    <SelectTrigger className="h-8 w-24 text-xs" title="Zoom">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="fit" className="text-xs">Fit</SelectItem>
+                      {ZOOM_LEVELS.map(level => (
+                        <SelectItem key={level} value={String(level)} className="text-xs">
+                          {level * 100}%
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </>
               )}
+
+              <Button
+                variant={multiViewport ? "secondary" : "ghost"}
+                size="icon"
+                className="h-8 w-8"
+                title="Compare phone, tablet and desktop"
+                onClick={() => setMultiViewport(prev => !prev)}
+              >
+                <Columns3 className="h-4 w-4" />
+              </Button>
             </div>
-          </ScrollArea>
+          </div>
+          <div className="relative flex-1 min-h-0 flex">
+            {viewports.length === 0 ? (
+              renderIframe(0)
+            ) : (
+              <div className="flex-1 min-w-0 flex bg-muted/30">
+                {viewports.map((viewport, index) => {
+                  const { label, width, height } = rotated ? rotate(viewport) : viewport;
+                  return (
+                    <DeviceFrame key={label} label={label} width={width} height={height} zoom={zoom}>
+                      {renderIframe(index)}
+                    </DeviceFrame>
+                  );
+                })}
+              </div>
+            )}
+            {buildErrors.length > 0 && !errorsDismissed && (
+              <div className="absolute inset-0 overflow-auto bg-background/95 p-6">
+                <div className="flex items-start justify-between gap-4 mb-4">
+                  <div className="flex items-center gap-2 text-destructive">
+                    <AlertTriangle className="h-5 w-5" />
+                    <h3 className="font-semibold">
+                      Failed to compile {buildErrors.length} file(s)
+                    </h3>
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => setErrorsDismissed(true)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="space-y-4">
+                  {buildErrors.map(error => (
+                    <div key={error.path} className="rounded-lg border border-destructive/50 p-4">
+                      <button
+                        type="button"
+                        className="font-mono text-sm font-semibold hover:underline"
+                        onClick={() => {
+                          const file = files.find(f => f.path === error.path);
+                          if (file) onFileSelect(file);
+                        }}
+                      >
+                        {error.path}
+                      </button>
+                      <pre className="mt-2 text-sm whitespace-pre-wrap text-muted-foreground">
+                        {error.message}
+                      </pre>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </TabsContent>
+
+        <TabsContent value="files" className="flex-1 m-0 min-h-0">
+          <FileTree
+            files={files}
+            selectedFileId={selectedFile?.id ?? null}
+            onFileSelect={onFileSelect}
+            onCreateFile={onCreateFile}
+            onMovePath={onMovePath}
+            onDeletePath={onDeletePath}
+          />
         </TabsContent>
       </Tabs>
     </div>
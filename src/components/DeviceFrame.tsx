@@ -0,0 +1,59 @@
+import { ReactNode, useEffect, useRef, useState } from "react";
+import { isMobileWidth } from "@/lib/viewports";
+import { Badge } from "./ui/badge";
+
+interface DeviceFrameProps {
+  label: string;
+  width: number;
+  height: number;
+  /** A fixed scale, or "fit" to shrink the device into the space available */
+  zoom: number | "fit";
+  children: ReactNode;
+}
+
+// Room taken by the label above the frame
+const LABEL_HEIGHT = 28;
+
+const DeviceFrame = ({ label, width, height, zoom, children }: DeviceFrameProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [available, setAvailable] = useState<{ width: number; height: number } | null>(null);
+
+  useEffect(() => {
+    const observer = new ResizeObserver(([entry]) => {
+      setAvailable({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(containerRef.current!);
+    return () => observer.disconnect();
+  }, []);
+
+  const fitScale = available
+    ? Math.max(Math.min(1, available.width / width, (available.height - LABEL_HEIGHT) / height), 0.1)
+    : 1;
+  const scale = zoom === "fit" ? fitScale : zoom;
+
+  return (
+    <div ref={containerRef} className="flex-1 min-w-0 h-full overflow-auto p-4 flex flex-col items-center">
+      <div className="mb-2 flex items-center gap-2 text-xs text-muted-foreground whitespace-nowrap">
+        <span className="font-medium text-foreground">{label}</span>
+        <span>
+          {width} × {height} · {Math.round(scale * 100)}%
+        </span>
+        {isMobileWidth(width) && (
+          <Badge variant="secondary" className="h-4 px-1.5 text-[10px]">
+            mobile
+          </Badge>
+        )}
+      </div>
+      <div
+        className="shrink-0 overflow-hidden rounded-xl border-4 border-foreground/80 bg-white shadow-lg"
+        style={{ width: width * scale + 8, height: height * scale + 8 }}
+      >
+        <div style={{ width, height, transform: `scale(${scale})`, transformOrigin: "top left" }}>
+          {children}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeviceFrame;
@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { Check, FileDiff, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { ScrollArea } from "./ui/scroll-area";
+import DiffView from "./DiffView";
+import type { DiffHunk } from "@/lib/file-diff";
+
+export interface PendingChange {
+  id: string;
+  kind: "create" | "edit" | "delete" | "rename";
+  path: string;
+  newPath?: string;
+  language: string;
+  oldContent: string | null;
+  newContent: string | null;
+  hunks: DiffHunk[];
+  messageId?: string;
+}
+
+interface DiffReviewProps {
+  changes: PendingChange[];
+  /** Resolves with whether the change was applied */
+  onApply: (change: PendingChange, acceptedHunks: Set<number>) => Promise<boolean>;
+  onReject: (change: PendingChange) => void;
+}
+
+const KIND_LABELS: Record<PendingChange["kind"], string> = {
+  create: "New file",
+  edit: "Modified",
+  delete: "Deleted",
+  rename: "Renamed",
+};
+
+const DiffReview = ({ changes, onApply, onReject }: DiffReviewProps) => {
+  // Rejected hunk indexes per change; everything else is accepted
+  const [rejectedHunks, setRejectedHunks] = useState<Record<string, Set<number>>>({});
+  const [applying, setApplying] = useState<string | null>(null);
+
+  const acceptedFor = (change: PendingChange) => {
+    const rejected = rejectedHunks[change.id] ?? new Set<number>();
+    return new Set(change.hunks.map((_, i) => i).filter((i) => !rejected.has(i)));
+  };
+
+  const setHunkRejected = (changeId: string, index: number, rejected: boolean) => {
+    setRejectedHunks((prev) => {
+      const next = new Set(prev[changeId]);
+      if (rejected) next.add(index);
+      else next.delete(index);
+      return { ...prev, [changeId]: next };
+    });
+  };
+
+  const handleApply = async (change: PendingChange) => {
+    setApplying(change.id);
+    try {
+      await onApply(change, acceptedFor(change));
+    } finally {
+      setApplying(null);
+    }
+  };
+
+  const handleApplyAll = async () => {
+    for (const change of changes) {
+      await handleApply(change);
+    }
+  };
+
+  if (changes.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-full text-muted-foreground">
+        <div className="text-center">
+          <FileDiff className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>No changes waiting for review</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-4 border-b flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Review changes</h3>
+          <p className="text-sm text-muted-foreground">
+            {changes.length} file(s) proposed by the assistant
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => changes.forEach(onReject)}
+            disabled={applying !== null}
+          >
+            <X className="h-4 w-4 mr-2" />
+            Reject all
+          </Button>
+          <Button size="sm" onClick={handleApplyAll} disabled={applying !== null}>
+            <Check className="h-4 w-4 mr-2" />
+            Accept all
+          </Button>
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-4 space-y-6">
+          {changes.map((change) => {
+            const accepted = acceptedFor(change);
+            const rejected = rejectedHunks[change.id] ?? new Set<number>();
+            const perHunk = change.kind === "edit" && change.hunks.length > 1;
+
+            return (
+              <div key={change.id} className="rounded-lg border">
+                <div className="p-3 border-b flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Badge variant={change.kind === "delete" ? "destructive" : "secondary"}>
+                      {KIND_LABELS[change.kind]}
+                    </Badge>
+                    <span className="font-mono text-sm truncate">
+                      {change.kind === "rename" ? `${change.path} → ${change.newPath}` : change.path}
+                    </span>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onReject(change)}
+                      disabled={applying !== null}
+                    >
+                      Reject
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => handleApply(change)}
+                      disabled={applying !== null || (change.kind === "edit" && accepted.size === 0)}
+                    >
+                      {perHunk ? `Apply ${accepted.size}/${change.hunks.length}` : "Accept"}
+                    </Button>
+                  </div>
+                </div>
+
+                {change.kind !== "rename" && (
+                  <div className="p-3">
+                    <DiffView
+                      hunks={change.hunks}
+                      hunkClassName={(i) => (rejected.has(i) ? "opacity-50" : undefined)}
+                      renderHunkActions={
+                        perHunk
+                          ? (i) => (
+                              <div className="flex gap-1">
+                                <Button
+                                  variant={rejected.has(i) ? "ghost" : "secondary"}
+                                  size="sm"
+                                  className="h-6 px-2 text-xs"
+                                  onClick={() => setHunkRejected(change.id, i, false)}
+                                >
+                                  Accept
+                                </Button>
+                                <Button
+                                  variant={rejected.has(i) ? "secondary" : "ghost"}
+                                  size="sm"
+                                  className="h-6 px-2 text-xs"
+                                  onClick={() => setHunkRejected(change.id, i, true)}
+                                >
+                                  Reject
+                                </Button>
+                              </div>
+                            )
+                          : undefined
+                      }
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default DiffReview;
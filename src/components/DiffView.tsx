@@ -0,0 +1,59 @@
+import { DiffHunk, toSideBySideRows } from "@/lib/file-diff";
+import { cn } from "@/lib/utils";
+
+interface DiffViewProps {
+  hunks: DiffHunk[];
+  renderHunkActions?: (index: number) => React.ReactNode;
+  hunkClassName?: (index: number) => string | undefined;
+}
+
+const DiffView = ({ hunks, renderHunkActions, hunkClassName }: DiffViewProps) => {
+  if (hunks.length === 0) {
+    return <p className="p-4 text-sm text-muted-foreground">No content changes</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {hunks.map((hunk, index) => (
+        <div key={index} className={cn("rounded-md border overflow-hidden", hunkClassName?.(index))}>
+          <div className="flex items-center justify-between bg-muted px-3 py-1 text-xs font-mono text-muted-foreground">
+            <span>
+              @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+            </span>
+            {renderHunkActions?.(index)}
+          </div>
+          <div className="grid grid-cols-2 divide-x font-mono text-xs overflow-x-auto">
+            {toSideBySideRows(hunk).map((row, rowIndex) => (
+              <div key={rowIndex} className="contents">
+                <div
+                  className={cn(
+                    "flex min-h-[1.25rem]",
+                    row.left?.changed && "bg-red-500/10 text-red-700 dark:text-red-300"
+                  )}
+                >
+                  <span className="w-10 shrink-0 select-none pr-2 text-right opacity-50">
+                    {row.left?.number}
+                  </span>
+                  <span className="whitespace-pre">{row.left?.text}</span>
+                </div>
+                <div
+                  className={cn(
+                    "flex min-h-[1.25rem]",
+                    row.right?.changed && "bg-green-500/10 text-green-700 dark:text-green-300"
+                  )}
+                >
+                  <span className="w-10 shrink-0 select-none pr-2 text-right opacity-50">
+                    {row.right?.number}
+                  </span>
+                  <span className="whitespace-pre">{row.right?.text}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DiffView;
@@ -0,0 +1,82 @@
+import { useState } from "react";
+import { ChevronRight, FileMinus, FilePen, FilePlus, FileWarning, FileSymlink } from "lucide-react";
+import { Badge } from "./ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "./ui/collapsible";
+import DiffView from "./DiffView";
+import type { MessageFileAction } from "@/lib/file-actions";
+import { languageFromPath } from "@/lib/file-tree";
+import { cn } from "@/lib/utils";
+
+const ICONS: Record<MessageFileAction["type"], typeof FilePen> = {
+  create: FilePlus,
+  edit: FilePen,
+  patch: FilePen,
+  delete: FileMinus,
+  rename: FileSymlink,
+  invalid: FileWarning,
+};
+
+const STATUS_LABELS: Record<MessageFileAction["status"], string> = {
+  proposed: "Proposed",
+  applied: "Applied",
+  failed: "Failed",
+};
+
+const countLines = (action: MessageFileAction, prefix: string) =>
+  action.hunks.reduce((total, hunk) => total + hunk.lines.filter(line => line[0] === prefix).length, 0);
+
+interface FileActionCardProps {
+  action: MessageFileAction;
+}
+
+/** One file change from an assistant message, collapsed to a summary line. */
+const FileActionCard = ({ action }: FileActionCardProps) => {
+  const [open, setOpen] = useState(false);
+  const Icon = ICONS[action.type];
+  const added = countLines(action, "+");
+  const removed = countLines(action, "-");
+
+  return (
+    <Collapsible
+      open={open}
+      onOpenChange={setOpen}
+      className="overflow-hidden rounded-md border bg-background text-foreground"
+    >
+      <CollapsibleTrigger className="flex w-full items-center gap-2 px-3 py-2 text-left text-xs hover:bg-muted/50">
+        <ChevronRight className={cn("h-3 w-3 shrink-0 transition-transform", open && "rotate-90")} />
+        <Icon className={cn("h-4 w-4 shrink-0", action.status === "failed" && "text-destructive")} />
+        <span className="min-w-0 flex-1 truncate font-mono" title={action.path}>
+          {action.path}
+          {action.newPath && ` → ${action.newPath}`}
+        </span>
+        {action.type !== "invalid" && (
+          <Badge variant="outline" className="font-mono font-normal">
+            {action.language ?? languageFromPath(action.newPath ?? action.path)}
+          </Badge>
+        )}
+        {(added > 0 || removed > 0) && (
+          <span className="shrink-0 font-mono">
+            <span className="text-green-700 dark:text-green-400">+{added}</span>{" "}
+            <span className="text-red-700 dark:text-red-400">-{removed}</span>
+          </span>
+        )}
+        <Badge variant={action.status === "failed" ? "destructive" : "secondary"}>
+          {STATUS_LABELS[action.status]}
+        </Badge>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="border-t p-2">
+        {action.error ? (
+          <p className="p-2 text-xs text-destructive">{action.error}</p>
+        ) : action.type === "rename" ? (
+          <p className="p-2 text-xs text-muted-foreground">
+            Moved to <span className="font-mono">{action.newPath}</span>
+          </p>
+        ) : (
+          <DiffView hunks={action.hunks} />
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default FileActionCard;
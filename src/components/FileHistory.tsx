@@ -0,0 +1,172 @@
+import { useCallback, useEffect, useState } from "react";
+import { Bot, History, Loader2, RotateCcw, User } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { computeHunks } from "@/lib/file-diff";
+import { cn } from "@/lib/utils";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { ScrollArea } from "./ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "./ui/sheet";
+import DiffView from "./DiffView";
+
+interface Revision {
+  id: string;
+  content: string | null;
+  author: string;
+  created_at: string;
+  message: { message_text: string } | null;
+}
+
+interface FileHistoryProps {
+  fileId: string;
+  path: string;
+  currentContent: string;
+  onRestore: (content: string) => Promise<void>;
+}
+
+const FileHistory = ({ fileId, path, currentContent, onRestore }: FileHistoryProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [selected, setSelected] = useState<Revision | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  const loadRevisions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("file_revisions")
+        .select("id, content, author, created_at, message:message_id(message_text)")
+        .eq("file_id", fileId)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setRevisions(data || []);
+      setSelected(data?.[0] ?? null);
+    } catch (error) {
+      toast({
+        title: "Error loading history",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [fileId, toast]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    loadRevisions();
+  }, [open, loadRevisions]);
+
+  const handleRestore = async () => {
+    if (!selected) return;
+
+    setRestoring(true);
+    try {
+      await onRestore(selected.content ?? "");
+      await loadRevisions();
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm">
+          <History className="h-4 w-4 mr-2" />
+          History
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-3xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle>History of {path}</SheetTitle>
+          <SheetDescription>
+            Compare a revision with the current content and restore it
+          </SheetDescription>
+        </SheetHeader>
+
+        {loading ? (
+          <div className="flex-1 flex items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No revisions recorded yet</p>
+        ) : (
+          <div className="flex-1 grid grid-rows-[minmax(0,14rem)_minmax(0,1fr)] gap-4 min-h-0">
+            <ScrollArea className="rounded-md border">
+              <div className="divide-y">
+                {revisions.map((revision) => (
+                  <button
+                    key={revision.id}
+                    type="button"
+                    onClick={() => setSelected(revision)}
+                    className={cn(
+                      "w-full text-left px-3 py-2 flex items-start gap-3 transition-colors",
+                      selected?.id === revision.id ? "bg-muted" : "hover:bg-muted/50"
+                    )}
+                  >
+                    {revision.author === "ai" ? (
+                      <Bot className="h-4 w-4 mt-0.5 text-primary shrink-0" />
+                    ) : (
+                      <User className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+                    )}
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 text-sm">
+                        <span>{new Date(revision.created_at).toLocaleString()}</span>
+                        <Badge variant="outline">{revision.author === "ai" ? "AI" : "You"}</Badge>
+                      </div>
+                      {revision.message && (
+                        <p className="text-xs text-muted-foreground truncate">
+                          {revision.message.message_text}
+                        </p>
+                      )}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {selected && (
+              <div className="flex flex-col min-h-0 gap-2">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-muted-foreground">
+                    Revision (left) compared with current content (right)
+                  </p>
+                  <Button
+                    size="sm"
+                    onClick={handleRestore}
+                    disabled={restoring || (selected.content ?? "") === currentContent}
+                  >
+                    {restoring ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                    )}
+                    Restore
+                  </Button>
+                </div>
+                <ScrollArea className="flex-1">
+                  <DiffView hunks={computeHunks(selected.content ?? "", currentContent)} />
+                </ScrollArea>
+              </div>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default FileHistory;
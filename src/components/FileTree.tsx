@@ -0,0 +1,385 @@
+import { useMemo, useState } from "react";
+import {
+  ChevronDown,
+  ChevronRight,
+  Code,
+  FilePlus,
+  FileText,
+  Folder,
+  FolderOpen,
+  FolderPlus,
+  Pencil,
+  Trash2,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  FileTreeNode,
+  buildFileTree,
+  filesUnder,
+  joinPath,
+  normalizePath,
+  parentPath,
+} from "@/lib/file-tree";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { ScrollArea } from "./ui/scroll-area";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from "./ui/context-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "./ui/alert-dialog";
+
+interface TreeFileItem {
+  id: string;
+  path: string;
+  content: string | null;
+  language: string;
+}
+
+interface FileTreeProps<T extends TreeFileItem> {
+  files: T[];
+  selectedFileId: string | null;
+  onFileSelect: (file: T) => void;
+  onCreateFile: (path: string) => Promise<void>;
+  onMovePath: (from: string, to: string, isFolder: boolean) => Promise<void>;
+  onDeletePath: (path: string, isFolder: boolean) => Promise<void>;
+}
+
+// Placeholder file that keeps an otherwise empty folder in `files`
+export const FOLDER_PLACEHOLDER = ".gitkeep";
+
+type NameDialog =
+  | { mode: "file" | "folder"; folder: string }
+  | { mode: "rename"; node: FileTreeNode };
+
+const DIALOG_TITLES = {
+  file: "New file",
+  folder: "New folder",
+  rename: "Rename",
+};
+
+const FileTree = <T extends TreeFileItem>({
+  files,
+  selectedFileId,
+  onFileSelect,
+  onCreateFile,
+  onMovePath,
+  onDeletePath,
+}: FileTreeProps<T>) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [nameDialog, setNameDialog] = useState<NameDialog | null>(null);
+  const [name, setName] = useState("");
+  const [nameError, setNameError] = useState("");
+  const [pendingDelete, setPendingDelete] = useState<FileTreeNode | null>(null);
+  const [dragging, setDragging] = useState<FileTreeNode | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const tree = useMemo(() => buildFileTree(files), [files]);
+
+  const toggleFolder = (path: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const openNameDialog = (dialog: NameDialog) => {
+    setNameDialog(dialog);
+    setName(dialog.mode === "rename" ? dialog.node.name : "");
+    setNameError("");
+  };
+
+  const handleNameSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!nameDialog) return;
+
+    const folder = nameDialog.mode === "rename" ? parentPath(nameDialog.node.path) : nameDialog.folder;
+    // Names may contain slashes to create nested folders in one go
+    const path = normalizePath(joinPath(folder, name));
+    if (!path) {
+      setNameError("Enter a valid name without empty, '.' or '..' segments");
+      return;
+    }
+    if (nameDialog.mode === "folder" && filesUnder(files, path).length > 0) {
+      setNameError(`${path} already exists`);
+      return;
+    }
+
+    setNameDialog(null);
+    if (nameDialog.mode === "rename") {
+      if (path !== nameDialog.node.path) {
+        await onMovePath(nameDialog.node.path, path, nameDialog.node.type === "folder");
+      }
+    } else if (nameDialog.mode === "folder") {
+      await onCreateFile(`${path}/${FOLDER_PLACEHOLDER}`);
+    } else {
+      await onCreateFile(path);
+    }
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      next.delete(folder);
+      return next;
+    });
+  };
+
+  const canDrop = (folder: string) =>
+    !!dragging &&
+    parentPath(dragging.path) !== folder &&
+    !(dragging.type === "folder" && (folder === dragging.path || folder.startsWith(`${dragging.path}/`)));
+
+  const handleDrop = async (e: React.DragEvent, folder: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const node = dragging;
+    setDragging(null);
+    setDropTarget(null);
+    if (!node || !canDrop(folder)) return;
+
+    await onMovePath(node.path, joinPath(folder, node.name), node.type === "folder");
+  };
+
+  const dropProps = (folder: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!canDrop(folder)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(folder);
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      e.stopPropagation();
+      setDropTarget((current) => (current === folder ? null : current));
+    },
+    onDrop: (e: React.DragEvent) => handleDrop(e, folder),
+  });
+
+  const renderNode = (node: FileTreeNode<T>, depth: number) => {
+    if (node.type === "file" && node.name === FOLDER_PLACEHOLDER) return null;
+
+    const isFolder = node.type === "folder";
+    const isOpen = isFolder && !collapsed.has(node.path);
+    const folder = isFolder ? node.path : parentPath(node.path);
+
+    return (
+      <div key={`${node.type}:${node.path}`}>
+        <ContextMenu>
+          <ContextMenuTrigger asChild>
+            <div
+              draggable
+              onDragStart={(e) => {
+                e.stopPropagation();
+                e.dataTransfer.effectAllowed = "move";
+                setDragging(node);
+              }}
+              onDragEnd={() => {
+                setDragging(null);
+                setDropTarget(null);
+              }}
+              // Keep the project-root menu from opening underneath this one
+              onContextMenu={(e) => e.stopPropagation()}
+              {...(isFolder ? dropProps(node.path) : {})}
+              onClick={() => (isFolder ? toggleFolder(node.path) : onFileSelect(node.file!))}
+              className={cn(
+                "flex items-center gap-1.5 rounded-md px-2 py-1 text-sm font-mono cursor-pointer select-none",
+                node.file && node.file.id === selectedFileId
+                  ? "bg-primary text-primary-foreground"
+                  : "hover:bg-muted",
+                dropTarget === node.path && isFolder && "ring-2 ring-primary"
+              )}
+              style={{ paddingLeft: `${depth * 12 + 8}px` }}
+              title={node.path}
+            >
+              {isFolder ? (
+                <>
+                  {isOpen ? (
+                    <ChevronDown className="h-3.5 w-3.5 shrink-0" />
+                  ) : (
+                    <ChevronRight className="h-3.5 w-3.5 shrink-0" />
+                  )}
+                  {isOpen ? (
+                    <FolderOpen className="h-4 w-4 shrink-0" />
+                  ) : (
+                    <Folder className="h-4 w-4 shrink-0" />
+                  )}
+                </>
+              ) : (
+                <FileText className="h-4 w-4 shrink-0 ml-5" />
+              )}
+              <span className="truncate">{node.name}</span>
+            </div>
+          </ContextMenuTrigger>
+          <ContextMenuContent>
+            <ContextMenuItem onSelect={() => openNameDialog({ mode: "file", folder })}>
+              <FilePlus className="h-4 w-4 mr-2" />
+              New file
+            </ContextMenuItem>
+            <ContextMenuItem onSelect={() => openNameDialog({ mode: "folder", folder })}>
+              <FolderPlus className="h-4 w-4 mr-2" />
+              New folder
+            </ContextMenuItem>
+            <ContextMenuSeparator />
+            <ContextMenuItem onSelect={() => openNameDialog({ mode: "rename", node })}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Rename
+            </ContextMenuItem>
+            <ContextMenuItem
+              className="text-destructive focus:text-destructive"
+              onSelect={() => setPendingDelete(node)}
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </ContextMenuItem>
+          </ContextMenuContent>
+        </ContextMenu>
+
+        {isOpen && node.children.map((child) => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  const deleteCount = pendingDelete ? filesUnder(files, pendingDelete.path).length : 0;
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="px-4 py-2 border-b flex items-center justify-between">
+        <span className="text-sm font-semibold">Files</span>
+        <div className="flex gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            title="New file"
+            onClick={() => openNameDialog({ mode: "file", folder: "" })}
+          >
+            <FilePlus className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            title="New folder"
+            onClick={() => openNameDialog({ mode: "folder", folder: "" })}
+          >
+            <FolderPlus className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <ContextMenu>
+        <ContextMenuTrigger asChild>
+          <div
+            {...dropProps("")}
+            className={cn("flex-1 min-h-0", dropTarget === "" && "bg-muted/50")}
+          >
+            <ScrollArea className="h-full">
+              <div className="p-2">
+                {files.length === 0 ? (
+                  <div className="text-center text-muted-foreground py-12">
+                    <Code className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                    <p>No files yet</p>
+                  </div>
+                ) : (
+                  tree.map((node) => renderNode(node, 0))
+                )}
+              </div>
+            </ScrollArea>
+          </div>
+        </ContextMenuTrigger>
+        <ContextMenuContent>
+          <ContextMenuItem onSelect={() => openNameDialog({ mode: "file", folder: "" })}>
+            <FilePlus className="h-4 w-4 mr-2" />
+            New file
+          </ContextMenuItem>
+          <ContextMenuItem onSelect={() => openNameDialog({ mode: "folder", folder: "" })}>
+            <FolderPlus className="h-4 w-4 mr-2" />
+            New folder
+          </ContextMenuItem>
+        </ContextMenuContent>
+      </ContextMenu>
+
+      <Dialog open={nameDialog !== null} onOpenChange={(open) => !open && setNameDialog(null)}>
+        <DialogContent>
+          <form onSubmit={handleNameSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{nameDialog && DIALOG_TITLES[nameDialog.mode]}</DialogTitle>
+              <DialogDescription>
+                {nameDialog?.mode === "rename"
+                  ? `Rename ${nameDialog.node.path}`
+                  : nameDialog?.folder
+                    ? `Inside ${nameDialog.folder}/`
+                    : "At the project root"}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Input
+                autoFocus
+                className="font-mono"
+                placeholder={nameDialog?.mode === "folder" ? "components" : "index.html"}
+                value={name}
+                onChange={(e) => {
+                  setName(e.target.value);
+                  setNameError("");
+                }}
+              />
+              {nameError && <p className="text-sm text-destructive">{nameError}</p>}
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setNameDialog(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!name.trim()}>
+                {nameDialog?.mode === "rename" ? "Rename" : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {pendingDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete?.type === "folder"
+                ? `This folder and the ${deleteCount} file(s) inside it will be deleted.`
+                : `${pendingDelete?.path} will be deleted.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() =>
+                pendingDelete && onDeletePath(pendingDelete.path, pendingDelete.type === "folder")
+              }
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default FileTree;
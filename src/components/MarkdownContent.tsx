@@ -0,0 +1,60 @@
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import CodeBlock from "./CodeBlock";
+
+// Tailwind has no typography plugin here, so each element is styled directly
+const components: Components = {
+  // Fenced code: the <pre> is replaced wholesale, so `code` below only sees inline code
+  pre: ({ node }) => {
+    const code = node?.children[0];
+    if (code?.type !== "element" || code.tagName !== "code") return null;
+
+    const classes = Array.isArray(code.properties.className) ? code.properties.className : [];
+    const language = classes
+      .map(String)
+      .find(name => name.startsWith("language-"))
+      ?.slice("language-".length);
+    const text = code.children.map(child => (child.type === "text" ? child.value : "")).join("");
+
+    return <CodeBlock code={text.replace(/\n$/, "")} language={language ?? "plaintext"} />;
+  },
+  code: ({ children }) => (
+    <code className="rounded bg-muted px-1 py-0.5 font-mono text-[0.85em]">{children}</code>
+  ),
+  p: ({ children }) => <p className="my-2 first:mt-0 last:mb-0">{children}</p>,
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noreferrer" className="text-primary underline underline-offset-2">
+      {children}
+    </a>
+  ),
+  ul: ({ children }) => <ul className="my-2 list-disc space-y-1 pl-5">{children}</ul>,
+  ol: ({ children }) => <ol className="my-2 list-decimal space-y-1 pl-5">{children}</ol>,
+  h1: ({ children }) => <h1 className="mb-2 mt-3 text-base font-semibold first:mt-0">{children}</h1>,
+  h2: ({ children }) => <h2 className="mb-2 mt-3 text-sm font-semibold first:mt-0">{children}</h2>,
+  h3: ({ children }) => <h3 className="mb-1 mt-3 text-sm font-semibold first:mt-0">{children}</h3>,
+  blockquote: ({ children }) => (
+    <blockquote className="my-2 border-l-2 pl-3 text-muted-foreground">{children}</blockquote>
+  ),
+  table: ({ children }) => (
+    <div className="my-2 overflow-x-auto">
+      <table className="w-full border-collapse text-xs">{children}</table>
+    </div>
+  ),
+  th: ({ children }) => <th className="border px-2 py-1 text-left font-semibold">{children}</th>,
+  td: ({ children }) => <td className="border px-2 py-1">{children}</td>,
+  hr: () => <hr className="my-3 border-border" />,
+};
+
+interface MarkdownContentProps {
+  content: string;
+}
+
+const MarkdownContent = ({ content }: MarkdownContentProps) => (
+  <div className="text-sm break-words">
+    <ReactMarkdown remarkPlugins={[remarkGfm]} components={components}>
+      {content}
+    </ReactMarkdown>
+  </div>
+);
+
+export default MarkdownContent;
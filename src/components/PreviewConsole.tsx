@@ -0,0 +1,222 @@
+import {
+  AlertCircle,
+  AlertTriangle,
+  ChevronDown,
+  ChevronUp,
+  Globe,
+  Info,
+  Loader2,
+  Terminal,
+  Trash2,
+  Wrench,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { PreviewEvent, SourceLocation } from "@/lib/preview";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { ScrollArea } from "./ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
+import { Switch } from "./ui/switch";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+
+export interface PreviewLogEntry {
+  id: number;
+  timestamp: number;
+  event: PreviewEvent;
+  location?: SourceLocation;
+}
+
+interface PreviewConsoleProps {
+  entries: PreviewLogEntry[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onClear: () => void;
+  onOpenLocation: (location: SourceLocation) => void;
+  onFixError: (entry: PreviewLogEntry) => void;
+  autoRepair: boolean;
+  onAutoRepairChange: (enabled: boolean) => void;
+  maxRepairAttempts: number;
+  onMaxRepairAttemptsChange: (attempts: number) => void;
+  repairStatus: string | null;
+}
+
+const REPAIR_ATTEMPT_OPTIONS = [1, 2, 3, 5];
+
+const isError = (event: PreviewEvent) =>
+  event.type === "error" || (event.type === "console" && event.level === "error");
+
+const isWarning = (event: PreviewEvent) => event.type === "console" && event.level === "warn";
+
+const PreviewConsole = ({
+  entries,
+  open,
+  onOpenChange,
+  onClear,
+  onOpenLocation,
+  onFixError,
+  autoRepair,
+  onAutoRepairChange,
+  maxRepairAttempts,
+  onMaxRepairAttemptsChange,
+  repairStatus,
+}: PreviewConsoleProps) => {
+  const logs = entries.filter((entry) => entry.event.type !== "network");
+  const requests = entries.filter((entry) => entry.event.type === "network");
+  const errorCount = logs.filter((entry) => isError(entry.event)).length;
+
+  const renderLocation = (location?: SourceLocation) =>
+    location && (
+      <button
+        type="button"
+        className="shrink-0 text-xs font-mono text-muted-foreground hover:text-foreground hover:underline"
+        onClick={() => onOpenLocation(location)}
+      >
+        {location.path}:{location.line}
+      </button>
+    );
+
+  return (
+    <div className={cn("border-t flex flex-col", open && "h-64")}>
+      <div className="px-4 py-1.5 flex items-center justify-between">
+        <button
+          type="button"
+          className="flex items-center gap-2 text-sm font-semibold"
+          onClick={() => onOpenChange(!open)}
+        >
+          <Terminal className="h-4 w-4" />
+          Console
+          {errorCount > 0 && (
+            <Badge variant="destructive" className="h-5 px-1.5">
+              {errorCount}
+            </Badge>
+          )}
+          {open ? <ChevronDown className="h-4 w-4" /> : <ChevronUp className="h-4 w-4" />}
+        </button>
+        <div className="flex items-center gap-3">
+          {repairStatus && (
+            <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              {repairStatus}
+            </span>
+          )}
+          <div className="flex items-center gap-2">
+            <Switch id="auto-repair" checked={autoRepair} onCheckedChange={onAutoRepairChange} />
+            <Label htmlFor="auto-repair" className="text-xs">
+              Auto-fix
+            </Label>
+            {autoRepair && (
+              <Select
+                value={String(maxRepairAttempts)}
+                onValueChange={(value) => onMaxRepairAttemptsChange(Number(value))}
+              >
+                <SelectTrigger className="h-7 w-[110px] text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REPAIR_ATTEMPT_OPTIONS.map((attempts) => (
+                    <SelectItem key={attempts} value={String(attempts)} className="text-xs">
+                      {attempts === 1 ? "1 attempt" : `${attempts} attempts`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          {open && (
+            <Button variant="ghost" size="icon" className="h-7 w-7" title="Clear" onClick={onClear}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {open && (
+        <Tabs defaultValue="console" className="flex-1 flex flex-col min-h-0">
+          <TabsList className="mx-4 w-fit">
+            <TabsTrigger value="console">Console ({logs.length})</TabsTrigger>
+            <TabsTrigger value="network">Network ({requests.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="console" className="flex-1 min-h-0 mt-1">
+            <ScrollArea className="h-full">
+              {logs.length === 0 ? (
+                <p className="px-4 py-2 text-sm text-muted-foreground">No console output</p>
+              ) : (
+                <div className="divide-y font-mono text-xs">
+                  {logs.map((entry) => (
+                    <div
+                      key={entry.id}
+                      className={cn(
+                        "px-4 py-1 flex items-start gap-2",
+                        isError(entry.event) && "bg-destructive/10 text-destructive",
+                        isWarning(entry.event) && "bg-yellow-500/10 text-yellow-700 dark:text-yellow-400"
+                      )}
+                    >
+                      {isError(entry.event) ? (
+                        <AlertCircle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                      ) : isWarning(entry.event) ? (
+                        <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                      ) : (
+                        <Info className="h-3.5 w-3.5 mt-0.5 shrink-0 opacity-50" />
+                      )}
+                      <pre className="flex-1 min-w-0 whitespace-pre-wrap break-words">
+                        {entry.event.type === "console"
+                          ? entry.event.args.join(" ")
+                          : entry.event.type === "error" && entry.event.message}
+                      </pre>
+                      {renderLocation(entry.location)}
+                      {isError(entry.event) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-5 px-1.5 text-xs shrink-0"
+                          onClick={() => onFixError(entry)}
+                        >
+                          <Wrench className="h-3 w-3 mr-1" />
+                          Fix
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="network" className="flex-1 min-h-0 mt-1">
+            <ScrollArea className="h-full">
+              {requests.length === 0 ? (
+                <p className="px-4 py-2 text-sm text-muted-foreground">No requests</p>
+              ) : (
+                <div className="divide-y font-mono text-xs">
+                  {requests.map(({ id, event }) =>
+                    event.type === "network" ? (
+                      <div
+                        key={id}
+                        className={cn(
+                          "px-4 py-1 flex items-center gap-3",
+                          (event.error || event.status >= 400) && "text-destructive"
+                        )}
+                      >
+                        <Globe className="h-3.5 w-3.5 shrink-0 opacity-50" />
+                        <span className="w-14 shrink-0">{event.method}</span>
+                        <span className="w-12 shrink-0">{event.error ? "failed" : event.status}</span>
+                        <span className="flex-1 min-w-0 truncate" title={event.error ?? event.url}>
+                          {event.url}
+                        </span>
+                        <span className="shrink-0 text-muted-foreground">{event.duration} ms</span>
+                      </div>
+                    ) : null
+                  )}
+                </div>
+              )}
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  );
+};
+
+export default PreviewConsole;
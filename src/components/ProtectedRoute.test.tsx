@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { MemoryRouter, Route, Routes, useLocation } from "react-router-dom";
+import { useAuth } from "@/hooks/use-auth";
+import { AuthProvider } from "./AuthProvider";
+import { supabase } from "@/integrations/supabase/client";
+import { gotrue } from "@/test/gotrue";
+import ProtectedRoute from "./ProtectedRoute";
+
+const AuthPage = () => {
+  const location = useLocation();
+  const from = (location.state as { from?: { pathname: string } } | null)?.from?.pathname;
+  return <p>Sign in to continue to {from}</p>;
+};
+
+const SignOutButton = () => {
+  const { signOut } = useAuth();
+  return <button onClick={() => signOut()}>Sign out</button>;
+};
+
+const renderAt = (path: string) =>
+  render(
+    <AuthProvider>
+      <MemoryRouter initialEntries={[path]}>
+        <Routes>
+          <Route path="/auth" element={<AuthPage />} />
+          <Route
+            path="/projects/:id"
+            element={
+              <ProtectedRoute>
+                <p>Project editor</p>
+                <SignOutButton />
+              </ProtectedRoute>
+            }
+          />
+        </Routes>
+      </MemoryRouter>
+    </AuthProvider>
+  );
+
+describe("ProtectedRoute", () => {
+  it("redirects to sign in and remembers where the user was going", async () => {
+    renderAt("/projects/42");
+
+    expect(await screen.findByText("Sign in to continue to /projects/42")).toBeInTheDocument();
+    expect(screen.queryByText("Project editor")).not.toBeInTheDocument();
+  });
+
+  it("shows the page when a session is stored", async () => {
+    gotrue.addUser("ada@example.com", "correct horse");
+    const { error } = await supabase.auth.signInWithPassword({
+      email: "ada@example.com",
+      password: "correct horse",
+    });
+    expect(error).toBeNull();
+
+    renderAt("/projects/42");
+
+    expect(await screen.findByText("Project editor")).toBeInTheDocument();
+  });
+
+  it("redirects once the user signs out", async () => {
+    gotrue.addUser("ada@example.com", "correct horse");
+    await supabase.auth.signInWithPassword({ email: "ada@example.com", password: "correct horse" });
+    renderAt("/projects/42");
+
+    fireEvent.click(await screen.findByRole("button", { name: "Sign out" }));
+
+    expect(await screen.findByText("Sign in to continue to /projects/42")).toBeInTheDocument();
+    expect(gotrue.lastRequest("/logout")).toBeDefined();
+  });
+});
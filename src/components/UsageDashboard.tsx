@@ -0,0 +1,259 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  USAGE_PERIODS,
+  UsagePeriod,
+  UsageRow,
+  UsageTotals,
+  dailyUsage,
+  formatCost,
+  formatTokens,
+  periodStart,
+  startOfMonth,
+  toDay,
+  totalUsage,
+  usageBy,
+} from "@/lib/usage";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "./ui/chart";
+import { Progress } from "./ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+
+interface UsageDashboardProps {
+  /** Limits the dashboard to one project; without it, shows all of the user's projects */
+  projectId?: string;
+}
+
+const chartConfig = {
+  prompt: { label: "Prompt", color: "hsl(var(--primary))" },
+  completion: { label: "Completion", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig;
+
+const UsageTable = ({ title, rows }: { title: string; rows: [string, UsageTotals][] }) => (
+  <Table>
+    <TableHeader>
+      <TableRow>
+        <TableHead>{title}</TableHead>
+        <TableHead className="text-right">Requests</TableHead>
+        <TableHead className="text-right">Tokens</TableHead>
+        <TableHead className="text-right">Est. cost</TableHead>
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {rows.map(([name, totals], index) => (
+        <TableRow key={index}>
+          <TableCell className="font-mono text-xs">{name}</TableCell>
+          <TableCell className="text-right">{totals.calls.toLocaleString()}</TableCell>
+          <TableCell className="text-right">
+            {formatTokens(totals.promptTokens + totals.completionTokens)}
+          </TableCell>
+          <TableCell className="text-right">{formatCost(totals.cost)}</TableCell>
+        </TableRow>
+      ))}
+    </TableBody>
+  </Table>
+);
+
+const UsageDashboard = ({ projectId }: UsageDashboardProps) => {
+  const { toast } = useToast();
+  const [period, setPeriod] = useState<UsagePeriod>("month");
+  const [rows, setRows] = useState<UsageRow[]>([]);
+  const [projectNames, setProjectNames] = useState<Map<string, string>>(new Map());
+  const [quota, setQuota] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const since = useMemo(() => periodStart(period), [period]);
+  const monthStart = useMemo(() => startOfMonth(), []);
+
+  const loadUsage = useCallback(async () => {
+    setLoading(true);
+    try {
+      // The quota counts the current month whatever period is shown
+      const from = since < monthStart ? since : monthStart;
+      const { data, error } = await supabase.rpc("ai_usage_summary", {
+        _since: from.toISOString(),
+        _project_id: projectId,
+      });
+
+      if (error) throw error;
+      setRows(data || []);
+
+      if (projectId) {
+        const { data: settings, error: settingsError } = await supabase
+          .from("project_ai_settings")
+          .select("monthly_token_quota")
+          .eq("project_id", projectId)
+          .maybeSingle();
+
+        if (settingsError) throw settingsError;
+        setQuota(settings?.monthly_token_quota ?? null);
+      } else {
+        const { data: projects, error: projectsError } = await supabase.from("projects").select("id, name");
+
+        if (projectsError) throw projectsError;
+        setProjectNames(new Map((projects || []).map((p) => [p.id, p.name])));
+      }
+    } catch (error) {
+      toast({
+        title: "Error loading usage",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, since, monthStart, toast]);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  const periodRows = useMemo(() => rows.filter((row) => row.day >= toDay(since)), [rows, since]);
+  const totals = useMemo(() => totalUsage(periodRows), [periodRows]);
+  const daily = useMemo(() => dailyUsage(periodRows, since), [periodRows, since]);
+  const monthTokens = useMemo(() => {
+    const month = totalUsage(rows.filter((row) => row.day >= toDay(monthStart)));
+    return month.promptTokens + month.completionTokens;
+  }, [rows, monthStart]);
+
+  const byModel = usageBy(periodRows, "model").map(([model, t]): [string, UsageTotals] => [model ?? "unknown", t]);
+  const byProject = usageBy(periodRows, "project_id").map(([id, t]): [string, UsageTotals] => [
+    (id && projectNames.get(id)) || "Deleted project",
+    t,
+  ]);
+
+  const stats = [
+    {
+      label: "Tokens",
+      value: formatTokens(totals.promptTokens + totals.completionTokens),
+      detail: `${formatTokens(totals.promptTokens)} prompt · ${formatTokens(totals.completionTokens)} completion`,
+    },
+    { label: "Estimated cost", value: formatCost(totals.cost), detail: "At list prices, where known" },
+    { label: "Requests", value: totals.calls.toLocaleString(), detail: "Chat, background and queued" },
+    {
+      label: "Average latency",
+      value: `${(totals.averageLatencyMs / 1000).toFixed(1)} s`,
+      detail: "Until the reply finished",
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          {projectId ? "AI requests made for this project" : "AI requests across all of your projects"}
+        </p>
+        <Select value={period} onValueChange={(value) => setPeriod(value as UsagePeriod)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {USAGE_PERIODS.map((option) => (
+              <SelectItem key={option.id} value={option.id}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            {stats.map((stat) => (
+              <Card key={stat.label}>
+                <CardHeader className="pb-2">
+                  <CardDescription>{stat.label}</CardDescription>
+                  <CardTitle className="text-2xl">{stat.value}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-xs text-muted-foreground">{stat.detail}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {quota !== null && (
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Monthly quota</CardDescription>
+                <CardTitle className="text-base">
+                  {formatTokens(monthTokens)} of {formatTokens(quota)} tokens used this month
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Progress value={Math.min(100, (monthTokens / quota) * 100)} />
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Tokens per day</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+                <BarChart data={daily}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="day"
+                    tickLine={false}
+                    axisLine={false}
+                    tickFormatter={(day: string) => day.slice(5)}
+                  />
+                  <YAxis tickLine={false} axisLine={false} width={40} tickFormatter={formatTokens} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="prompt" stackId="tokens" fill="var(--color-prompt)" />
+                  <Bar dataKey="completion" stackId="tokens" fill="var(--color-completion)" radius={[2, 2, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          {periodRows.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground py-4">No AI usage in this period</p>
+          ) : (
+            <div className={`grid gap-4 ${projectId ? "" : "lg:grid-cols-2"}`}>
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">By model</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <UsageTable title="Model" rows={byModel} />
+                </CardContent>
+              </Card>
+              {!projectId && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base">By project</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <UsageTable title="Project" rows={byProject} />
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default UsageDashboard;
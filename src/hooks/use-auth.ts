@@ -0,0 +1,25 @@
+import * as React from "react";
+import type { Session, User } from "@supabase/supabase-js";
+
+export interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  loading: boolean;
+  signIn: (email: string, password: string) => Promise<void>;
+  signUp: (email: string, password: string, fullName: string) => Promise<void>;
+  signOut: () => Promise<void>;
+  sendPasswordReset: (email: string) => Promise<void>;
+  updatePassword: (password: string) => Promise<void>;
+}
+
+export const AuthContext = React.createContext<AuthContextValue | undefined>(undefined);
+
+export function useAuth() {
+  const context = React.useContext(AuthContext);
+
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider.");
+  }
+
+  return context;
+}
@@ -14,12 +14,256 @@ export type Database = {
   }
   public: {
     Tables: {
+      ai_usage: {
+        Row: {
+          completion_tokens: number
+          cost_usd: number | null
+          created_at: string
+          id: string
+          latency_ms: number
+          model: string
+          project_id: string | null
+          prompt_tokens: number
+          provider: string
+          reported: boolean
+          source: string
+          user_id: string
+        }
+        Insert: {
+          completion_tokens?: number
+          cost_usd?: number | null
+          created_at?: string
+          id?: string
+          latency_ms: number
+          model: string
+          project_id?: string | null
+          prompt_tokens?: number
+          provider: string
+          reported?: boolean
+          source: string
+          user_id: string
+        }
+        Update: {
+          completion_tokens?: number
+          cost_usd?: number | null
+          created_at?: string
+          id?: string
+          latency_ms?: number
+          model?: string
+          project_id?: string | null
+          prompt_tokens?: number
+          provider?: string
+          reported?: boolean
+          source?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_usage_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      checkpoint_files: {
+        Row: {
+          checkpoint_id: string
+          content: string | null
+          language: string | null
+          path: string
+        }
+        Insert: {
+          checkpoint_id: string
+          content?: string | null
+          language?: string | null
+          path: string
+        }
+        Update: {
+          checkpoint_id?: string
+          content?: string | null
+          language?: string | null
+          path?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "checkpoint_files_checkpoint_id_fkey"
+            columns: ["checkpoint_id"]
+            isOneToOne: false
+            referencedRelation: "checkpoints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      checkpoints: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          kind: string
+          message_id: string | null
+          name: string
+          project_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind?: string
+          message_id?: string | null
+          name: string
+          project_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind?: string
+          message_id?: string | null
+          name?: string
+          project_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "checkpoints_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "message"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "checkpoints_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      file_chunks: {
+        Row: {
+          chunk_index: number
+          content: string
+          created_at: string
+          embedder: string
+          embedding: string
+          end_line: number
+          file_id: string
+          id: string
+          path: string
+          project_id: string
+          start_line: number
+        }
+        Insert: {
+          chunk_index: number
+          content: string
+          created_at?: string
+          embedder: string
+          embedding: string
+          end_line: number
+          file_id: string
+          id?: string
+          path: string
+          project_id: string
+          start_line: number
+        }
+        Update: {
+          chunk_index?: number
+          content?: string
+          created_at?: string
+          embedder?: string
+          embedding?: string
+          end_line?: number
+          file_id?: string
+          id?: string
+          path?: string
+          project_id?: string
+          start_line?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "file_chunks_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "files"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "file_chunks_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      file_revisions: {
+        Row: {
+          author: string
+          content: string | null
+          created_at: string
+          created_by: string | null
+          file_id: string
+          id: string
+          message_id: string | null
+          path: string
+          project_id: string
+        }
+        Insert: {
+          author: string
+          content?: string | null
+          created_at?: string
+          created_by?: string | null
+          file_id: string
+          id?: string
+          message_id?: string | null
+          path: string
+          project_id: string
+        }
+        Update: {
+          author?: string
+          content?: string | null
+          created_at?: string
+          created_by?: string | null
+          file_id?: string
+          id?: string
+          message_id?: string | null
+          path?: string
+          project_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "file_revisions_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "files"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "file_revisions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "message"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "file_revisions_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       files: {
         Row: {
           content: string | null
           created_at: string | null
           id: string
           language: string | null
+          last_author: string
+          last_message_id: string | null
           path: string
           project_id: string
           updated_at: string | null
@@ -29,6 +273,8 @@ export type Database = {
           created_at?: string | null
           id?: string
           language?: string | null
+          last_author?: string
+          last_message_id?: string | null
           path: string
           project_id: string
           updated_at?: string | null
@@ -38,11 +284,20 @@ export type Database = {
           created_at?: string | null
           id?: string
           language?: string | null
+          last_author?: string
+          last_message_id?: string | null
           path?: string
           project_id?: string
           updated_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "files_last_message_id_fkey"
+            columns: ["last_message_id"]
+            isOneToOne: false
+            referencedRelation: "message"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "files_project_id_fkey"
             columns: ["project_id"]
@@ -52,32 +307,128 @@ export type Database = {
           },
         ]
       }
+      jobs: {
+        Row: {
+          actions: Json
+          attempts: number
+          created_at: string
+          created_by: string | null
+          error: string | null
+          finished_at: string | null
+          id: string
+          input: Json
+          kind: string
+          locked_until: string | null
+          message_id: string | null
+          output: string
+          project_id: string
+          started_at: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          actions?: Json
+          attempts?: number
+          created_at?: string
+          created_by?: string | null
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          input?: Json
+          kind?: string
+          locked_until?: string | null
+          message_id?: string | null
+          output?: string
+          project_id: string
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          actions?: Json
+          attempts?: number
+          created_at?: string
+          created_by?: string | null
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          input?: Json
+          kind?: string
+          locked_until?: string | null
+          message_id?: string | null
+          output?: string
+          project_id?: string
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "jobs_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       message: {
         Row: {
+          attachments: Json
+          attempts: number
           created_at: string
+          file_actions: Json
           id: string
+          last_error: string | null
+          locked_until: string | null
           message_text: string
+          next_attempt_at: string | null
+          parent_id: string | null
           project_id: string | null
+          reply_id: string | null
           sender: string
           status: string | null
         }
         Insert: {
+          attachments?: Json
+          attempts?: number
           created_at?: string
+          file_actions?: Json
           id?: string
+          last_error?: string | null
+          locked_until?: string | null
           message_text: string
+          next_attempt_at?: string | null
+          parent_id?: string | null
           project_id?: string | null
+          reply_id?: string | null
           sender: string
           status?: string | null
         }
         Update: {
+          attachments?: Json
+          attempts?: number
           created_at?: string
+          file_actions?: Json
           id?: string
+          last_error?: string | null
+          locked_until?: string | null
           message_text?: string
+          next_attempt_at?: string | null
+          parent_id?: string | null
           project_id?: string | null
+          reply_id?: string | null
           sender?: string
           status?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "message_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "message"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "message_project_id_fkey"
             columns: ["project_id"]
@@ -85,6 +436,13 @@ export type Database = {
             referencedRelation: "projects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "message_reply_id_fkey"
+            columns: ["reply_id"]
+            isOneToOne: false
+            referencedRelation: "message"
+            referencedColumns: ["id"]
+          },
         ]
       }
       profiles: {
@@ -114,6 +472,50 @@ export type Database = {
         }
         Relationships: []
       }
+      project_ai_settings: {
+        Row: {
+          created_at: string
+          custom_instructions: string | null
+          max_tokens: number | null
+          model: string | null
+          monthly_token_quota: number | null
+          project_id: string
+          provider: string
+          temperature: number | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          custom_instructions?: string | null
+          max_tokens?: number | null
+          model?: string | null
+          monthly_token_quota?: number | null
+          project_id: string
+          provider?: string
+          temperature?: number | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          custom_instructions?: string | null
+          max_tokens?: number | null
+          model?: string | null
+          monthly_token_quota?: number | null
+          project_id?: string
+          provider?: string
+          temperature?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_ai_settings_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: true
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       projects: {
         Row: {
           created_at: string | null
@@ -167,6 +569,81 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      ai_usage_summary: {
+        Args: {
+          _project_id?: string
+          _since: string
+        }
+        Returns: {
+          calls: number
+          completion_tokens: number
+          cost_usd: number
+          day: string
+          model: string
+          project_id: string
+          prompt_tokens: number
+          total_latency_ms: number
+        }[]
+      }
+      ai_usage_this_month: {
+        Args: {
+          _project_id: string
+          _user_id: string
+        }
+        Returns: {
+          project_tokens: number
+          user_tokens: number
+        }[]
+      }
+      cancel_job: {
+        Args: {
+          _id: string
+        }
+        Returns: undefined
+      }
+      claim_jobs: {
+        Args: {
+          _lease_seconds?: number
+          _limit?: number
+          _max_attempts?: number
+        }
+        Returns: Database["public"]["Tables"]["jobs"]["Row"][]
+      }
+      claim_messages: {
+        Args: {
+          _lease_seconds?: number
+          _limit?: number
+          _message_id?: string
+          _project_id?: string
+        }
+        Returns: Database["public"]["Tables"]["message"]["Row"][]
+      }
+      complete_message: {
+        Args: {
+          _attempt: number
+          _message_id: string
+          _reply_text: string
+        }
+        Returns: string
+      }
+      create_checkpoint: {
+        Args: {
+          _kind?: string
+          _message_id?: string
+          _name: string
+          _project_id: string
+        }
+        Returns: string
+      }
+      fail_message: {
+        Args: {
+          _attempt: number
+          _error: string
+          _max_attempts?: number
+          _message_id: string
+        }
+        Returns: string
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -174,6 +651,31 @@ export type Database = {
         }
         Returns: boolean
       }
+      invoke_job_worker: {
+        Args: never
+        Returns: undefined
+      }
+      match_file_chunks: {
+        Args: {
+          _embedder: string
+          _match_count?: number
+          _project_id: string
+          _query_embedding: string
+        }
+        Returns: {
+          content: string
+          end_line: number
+          path: string
+          similarity: number
+          start_line: number
+        }[]
+      }
+      restore_checkpoint: {
+        Args: {
+          _checkpoint_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "user"
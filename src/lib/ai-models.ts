@@ -0,0 +1,55 @@
+/**
+ * Model providers the AI edge functions support. Keep in sync with
+ * supabase/functions/_shared/ai-provider.ts; API keys are configured there.
+ */
+export interface AIProviderOption {
+  id: string;
+  label: string;
+  models: string[];
+  /** Accepts any model name, e.g. whatever is pulled into a local Ollama */
+  freeformModel?: boolean;
+}
+
+export const AI_PROVIDERS: AIProviderOption[] = [
+  {
+    id: "lovable",
+    label: "Lovable AI",
+    models: ["google/gemini-2.5-flash", "google/gemini-2.5-pro", "openai/gpt-5-mini", "openai/gpt-5"],
+  },
+  {
+    id: "openai",
+    label: "OpenAI",
+    models: ["gpt-4o-mini", "gpt-4o", "gpt-4.1-mini", "gpt-4.1"],
+  },
+  {
+    id: "gemini",
+    label: "Google Gemini",
+    models: ["gemini-2.5-flash", "gemini-2.5-pro"],
+  },
+  {
+    id: "anthropic",
+    label: "Anthropic",
+    models: ["claude-3-5-haiku-latest", "claude-3-7-sonnet-latest"],
+  },
+  {
+    id: "ollama",
+    label: "Ollama (local)",
+    models: ["llama3.1", "qwen2.5-coder"],
+    freeformModel: true,
+  },
+  {
+    id: "mock",
+    label: "Mock (testing)",
+    models: ["mock"],
+  },
+];
+
+export const DEFAULT_AI_PROVIDER = "lovable";
+
+export const MAX_CUSTOM_INSTRUCTIONS = 8000;
+
+// Same bound as the check on project_ai_settings.max_tokens
+export const MAX_REPLY_TOKENS = 65536;
+
+export const findProvider = (id: string) =>
+  AI_PROVIDERS.find((provider) => provider.id === id) ?? AI_PROVIDERS[0];
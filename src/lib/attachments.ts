@@ -0,0 +1,61 @@
+import { supabase } from "@/integrations/supabase/client";
+import { languageFromPath } from "./file-tree";
+
+/**
+ * Files attached to chat messages, stored in the `chat-attachments` bucket
+ * under the project's id. Keep in sync with
+ * supabase/functions/_shared/attachments.ts.
+ */
+export interface Attachment {
+  path: string;
+  name: string;
+  mimeType: string;
+  size: number;
+}
+
+export const ATTACHMENTS_BUCKET = "chat-attachments";
+export const MAX_ATTACHMENTS = 5;
+
+// Formats every supported provider accepts
+const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_TEXT_BYTES = 512 * 1024;
+const TEXT_EXTENSIONS = ["txt", "md", "csv", "yml", "yaml", "toml", "env", "sql", "py", "sh"];
+
+export const isImageAttachment = (attachment: Pick<Attachment, "mimeType">) =>
+  attachment.mimeType.startsWith("image/");
+
+const isTextFile = (file: File) => {
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  return (
+    file.type.startsWith("text/") ||
+    file.type === "application/json" ||
+    languageFromPath(file.name) !== "plaintext" ||
+    TEXT_EXTENSIONS.includes(extension)
+  );
+};
+
+/** Why a file cannot be attached, or null when it can. */
+export function attachmentError(file: File): string | null {
+  if (IMAGE_TYPES.includes(file.type)) {
+    return file.size > MAX_IMAGE_BYTES ? `${file.name} is larger than 5 MB` : null;
+  }
+  if (isTextFile(file)) {
+    return file.size > MAX_TEXT_BYTES ? `${file.name} is larger than 512 KB` : null;
+  }
+  return `${file.name} is not an image or a text file`;
+}
+
+/** Uploads a file for a chat message in the project. */
+export async function uploadAttachment(projectId: string, file: File): Promise<Attachment> {
+  const mimeType = file.type || "text/plain";
+  // A folder per upload keeps the original file name without collisions
+  const path = `${projectId}/${crypto.randomUUID()}/${file.name.replace(/[^\w.-]+/g, "_")}`;
+
+  const { error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .upload(path, file, { contentType: mimeType });
+
+  if (error) throw error;
+  return { path, name: file.name, mimeType, size: file.size };
+}
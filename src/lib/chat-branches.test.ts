@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { ROOT_KEY, activeThread, choose, groupByParent, pathTo } from "./chat-branches";
+
+const node = (id: string, parentId: string | null, minute: number) => ({
+  id,
+  parentId,
+  createdAt: `2025-10-17T10:${String(minute).padStart(2, "0")}:00Z`,
+});
+
+// q1 ─ a1 ─ q2 ─ a2
+//           └ q2b ─ a2b   (q2 edited)
+// q1b ─ a1b               (first question edited)
+const MESSAGES = [
+  node("q1", null, 0),
+  node("a1", "q1", 1),
+  node("q2", "a1", 2),
+  node("a2", "q2", 3),
+  node("q2b", "a1", 4),
+  node("a2b", "q2b", 5),
+  node("q1b", null, 6),
+  node("a1b", "q1b", 7),
+];
+
+const ids = (nodes: { id: string }[]) => nodes.map((n) => n.id);
+
+describe("groupByParent", () => {
+  it("lists children oldest first, with root messages under ROOT_KEY", () => {
+    const children = groupByParent([...MESSAGES].reverse());
+
+    expect(ids(children.get(ROOT_KEY))).toEqual(["q1", "q1b"]);
+    expect(ids(children.get("a1"))).toEqual(["q2", "q2b"]);
+  });
+});
+
+describe("activeThread", () => {
+  it("follows the newest child by default", () => {
+    expect(ids(activeThread(MESSAGES, {}))).toEqual(["q1b", "a1b"]);
+  });
+
+  it("follows the chosen children", () => {
+    expect(ids(activeThread(MESSAGES, { [ROOT_KEY]: "q1" }))).toEqual(["q1", "a1", "q2b", "a2b"]);
+    expect(ids(activeThread(MESSAGES, { [ROOT_KEY]: "q1", a1: "q2" }))).toEqual(["q1", "a1", "q2", "a2"]);
+  });
+
+  it("falls back to the newest child when the chosen one is gone", () => {
+    expect(ids(activeThread(MESSAGES, { [ROOT_KEY]: "deleted" }))).toEqual(["q1b", "a1b"]);
+  });
+
+  it("is empty without messages", () => {
+    expect(activeThread([], {})).toEqual([]);
+  });
+});
+
+describe("choose", () => {
+  it("shows the chosen sibling and keeps choices above it", () => {
+    const choice = choose({ [ROOT_KEY]: "q1" }, node("q2", "a1", 2));
+
+    expect(choice).toEqual({ [ROOT_KEY]: "q1", a1: "q2" });
+    expect(ids(activeThread(MESSAGES, choice))).toEqual(["q1", "a1", "q2", "a2"]);
+  });
+
+  it("does not change the choices it is given", () => {
+    const choice = { [ROOT_KEY]: "q1" };
+    choose(choice, node("q1b", null, 6));
+
+    expect(choice).toEqual({ [ROOT_KEY]: "q1" });
+  });
+});
+
+describe("pathTo", () => {
+  it("lists the messages leading to a message, oldest first", () => {
+    expect(ids(pathTo(MESSAGES, "a2b"))).toEqual(["q1", "a1", "q2b", "a2b"]);
+  });
+
+  it("is empty for an unknown or missing id", () => {
+    expect(pathTo(MESSAGES, "unknown")).toEqual([]);
+    expect(pathTo(MESSAGES, null)).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Chat history is a tree: every message points at the one it follows, and
+ * editing or regenerating a message adds a sibling instead of replacing it.
+ * The conversation on screen is one path from a root to a leaf.
+ */
+export interface BranchNode {
+  id: string;
+  parentId: string | null;
+  createdAt: string;
+}
+
+/** Key for the children of the conversation root in branch maps */
+export const ROOT_KEY = "root";
+
+/** Which child to follow below each message (or ROOT_KEY) */
+export type BranchChoice = Record<string, string>;
+
+const keyOf = (parentId: string | null) => parentId ?? ROOT_KEY;
+
+/** Children of each message, oldest first. */
+export function groupByParent<T extends BranchNode>(nodes: T[]): Map<string, T[]> {
+  const children = new Map<string, T[]>();
+
+  for (const node of nodes) {
+    const key = keyOf(node.parentId);
+    const siblings = children.get(key) ?? [];
+    siblings.push(node);
+    children.set(key, siblings);
+  }
+
+  for (const siblings of children.values()) {
+    siblings.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  return children;
+}
+
+/**
+ * The conversation shown to the user: from the root down, following the
+ * chosen child or, by default, the newest one.
+ */
+export function activeThread<T extends BranchNode>(nodes: T[], choice: BranchChoice): T[] {
+  const children = groupByParent(nodes);
+  const thread: T[] = [];
+  let key = ROOT_KEY;
+
+  for (;;) {
+    const siblings = children.get(key);
+    if (!siblings?.length) break;
+
+    const next = siblings.find(node => node.id === choice[key]) ?? siblings[siblings.length - 1];
+    thread.push(next);
+    key = next.id;
+  }
+
+  return thread;
+}
+
+/** The messages leading up to and including `id`, oldest first. */
+export function pathTo<T extends BranchNode>(nodes: T[], id: string | null): T[] {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const path: T[] = [];
+
+  for (let node = id ? byId.get(id) : undefined; node; node = node.parentId ? byId.get(node.parentId) : undefined) {
+    path.unshift(node);
+  }
+
+  return path;
+}
+
+/** Branch choices that show `node`, with its parent chain left as chosen. */
+export function choose(choice: BranchChoice, node: BranchNode): BranchChoice {
+  return { ...choice, [keyOf(node.parentId)]: node.id };
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { expandInput, findTrigger, suggestionsFor } from "./chat-commands";
+
+describe("expandInput", () => {
+  it("sends ordinary messages as typed", () => {
+    expect(expandInput("  Add a footer  ", "src/App.tsx")).toEqual({ type: "prompt", text: "Add a footer" });
+  });
+
+  it("leaves unknown commands alone", () => {
+    expect(expandInput("/deploy now", undefined)).toEqual({ type: "prompt", text: "/deploy now" });
+  });
+
+  it("points commands at the open file", () => {
+    expect(expandInput("/fix", "src/App.tsx")).toEqual({
+      type: "prompt",
+      text: "Find and fix the bugs in @src/App.tsx.",
+    });
+  });
+
+  it("points commands at the mentioned files and keeps the details", () => {
+    expect(expandInput("/explain @src/lib/a.ts how is it cached?", "src/App.tsx")).toEqual({
+      type: "prompt",
+      text: "Explain the code in the mentioned files and how it works. Do not change any files.\n\n@src/lib/a.ts how is it cached?",
+    });
+  });
+
+  it("falls back to the whole project without an open file", () => {
+    expect(expandInput("/refactor", undefined)).toMatchObject({ text: expect.stringContaining("Refactor the project") });
+  });
+
+  it("recognizes undo", () => {
+    expect(expandInput("/undo", "src/App.tsx")).toEqual({ type: "undo" });
+  });
+});
+
+describe("findTrigger", () => {
+  it("finds a command at the start of the message", () => {
+    expect(findTrigger("/ex", 3)).toEqual({ type: "command", query: "ex", start: 0 });
+  });
+
+  it("ignores slashes after the start", () => {
+    expect(findTrigger("see a/b", 7)).toBeNull();
+    expect(findTrigger("please /fix", 11)).toBeNull();
+  });
+
+  it("finds a mention at the caret", () => {
+    const text = "look at @src/Ap and tell me";
+    expect(findTrigger(text, 15)).toEqual({ type: "mention", query: "src/Ap", start: 8 });
+  });
+
+  it("ignores email addresses and finished words", () => {
+    expect(findTrigger("mail ada@example.com", 20)).toBeNull();
+    expect(findTrigger("@src/App.tsx ", 13)).toBeNull();
+  });
+});
+
+describe("suggestionsFor", () => {
+  it("ranks matches in the file name first", () => {
+    const paths = ["src/app/index.ts", "src/App.tsx", "README.md"];
+
+    expect(suggestionsFor({ type: "mention", query: "app", start: 0 }, paths).map((s) => s.value)).toEqual([
+      "src/App.tsx",
+      "src/app/index.ts",
+    ]);
+  });
+
+  it("completes command names", () => {
+    expect(suggestionsFor({ type: "command", query: "u", start: 0 }, [])).toMatchObject([
+      { value: "undo", insert: "/undo " },
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Slash commands and `@path` file mentions typed into the chat input.
+ * Commands expand into an ordinary prompt; mentioned files are attached in
+ * full by the edge function (see mentionedPaths in _shared/context.ts).
+ */
+export interface ChatCommand {
+  name: string;
+  description: string;
+  /** Builds the prompt for `target`; absent for commands that don't ask the assistant */
+  prompt?: (target: string) => string;
+}
+
+export const CHAT_COMMANDS: ChatCommand[] = [
+  {
+    name: "explain",
+    description: "Explain how the code works",
+    prompt: (target) => `Explain the code in ${target} and how it works. Do not change any files.`,
+  },
+  {
+    name: "fix",
+    description: "Find and fix bugs",
+    prompt: (target) => `Find and fix the bugs in ${target}.`,
+  },
+  {
+    name: "test",
+    description: "Write tests",
+    prompt: (target) => `Write tests for ${target}, following the project's existing test setup if it has one.`,
+  },
+  {
+    name: "refactor",
+    description: "Refactor without changing behavior",
+    prompt: (target) => `Refactor ${target} to make it easier to read and maintain, without changing its behavior.`,
+  },
+  {
+    name: "undo",
+    description: "Revert the last changes the assistant applied",
+  },
+];
+
+export type ExpandedInput =
+  | { type: "prompt"; text: string }
+  | { type: "undo" };
+
+const MENTION = /(^|\s)@\S/;
+
+/**
+ * Turns a slash command into the prompt to send. Commands act on the files
+ * mentioned after them, or else on the file open in the editor. Anything
+ * else is sent as typed.
+ */
+export function expandInput(input: string, selectedPath: string | undefined): ExpandedInput {
+  const match = input.trim().match(/^\/(\w+)(?:\s+([\s\S]*))?$/);
+  const command = CHAT_COMMANDS.find((c) => c.name === match?.[1]);
+  if (!command) return { type: "prompt", text: input.trim() };
+  if (!command.prompt) return { type: "undo" };
+
+  const details = match[2]?.trim() ?? "";
+  const target = MENTION.test(details)
+    ? "the mentioned files"
+    : selectedPath
+      ? `@${selectedPath}`
+      : "the project";
+
+  return { type: "prompt", text: [command.prompt(target), details].filter(Boolean).join("\n\n") };
+}
+
+/** A command or mention being typed at the caret, which autocomplete replaces. */
+export interface Trigger {
+  type: "command" | "mention";
+  query: string;
+  /** Index of the `/` or `@` */
+  start: number;
+}
+
+export function findTrigger(text: string, caret: number): Trigger | null {
+  const match = text.slice(0, caret).match(/(^|\s)([@/])([^\s@]*)$/);
+  if (!match) return null;
+
+  const start = caret - match[3].length - 1;
+  // Commands only count at the start of the message
+  if (match[2] === "/") return start === 0 ? { type: "command", query: match[3], start } : null;
+  return { type: "mention", query: match[3], start };
+}
+
+const MAX_SUGGESTIONS = 8;
+
+export interface Suggestion {
+  value: string;
+  label: string;
+  description?: string;
+  /** Replaces the trigger and query */
+  insert: string;
+}
+
+export function suggestionsFor(trigger: Trigger, paths: string[]): Suggestion[] {
+  const query = trigger.query.toLowerCase();
+
+  if (trigger.type === "command") {
+    return CHAT_COMMANDS.filter((c) => c.name.startsWith(query)).map((c) => ({
+      value: c.name,
+      label: `/${c.name}`,
+      description: c.description,
+      insert: `/${c.name} `,
+    }));
+  }
+
+  // Matches in the file name rank above matches elsewhere in the path
+  const fileName = (path: string) => path.slice(path.lastIndexOf("/") + 1).toLowerCase();
+  return paths
+    .filter((path) => path.toLowerCase().includes(query))
+    .sort((a, b) => Number(!fileName(a).includes(query)) - Number(!fileName(b).includes(query)) || a.localeCompare(b))
+    .slice(0, MAX_SUGGESTIONS)
+    .map((path) => ({ value: path, label: path, insert: `@${path} ` }));
+}
@@ -0,0 +1,45 @@
+export interface EditorDiagnostic {
+  from: number;
+  to: number;
+  severity: "error" | "warning";
+  message: string;
+}
+
+export interface DiagnosticsRequest {
+  id: number;
+  code: string;
+  language: string;
+  path: string;
+}
+
+export interface DiagnosticsResponse {
+  id: number;
+  diagnostics: EditorDiagnostic[];
+}
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, (diagnostics: EditorDiagnostic[]) => void>();
+
+// The worker bundles the TypeScript compiler, so it is only started on first use
+const getWorker = () => {
+  if (!worker) {
+    worker = new Worker(new URL("../workers/diagnostics.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    worker.addEventListener("message", (event: MessageEvent<DiagnosticsResponse>) => {
+      pending.get(event.data.id)?.(event.data.diagnostics);
+      pending.delete(event.data.id);
+    });
+  }
+  return worker;
+};
+
+export function requestDiagnostics(code: string, language: string, path: string) {
+  const id = nextId++;
+
+  return new Promise<EditorDiagnostic[]>((resolve) => {
+    pending.set(id, resolve);
+    getWorker().postMessage({ id, code, language, path } satisfies DiagnosticsRequest);
+  });
+}
@@ -0,0 +1,59 @@
+import type { PreviewEvent, SourceLocation } from "./preview";
+
+interface RepairFile {
+  path: string;
+  content: string | null;
+}
+
+// Keeps the prompt within the model's context when files are large
+const MAX_FILES = 5;
+const MAX_FILE_CHARS = 20000;
+
+/**
+ * Files worth showing the assistant for an error: the one it was thrown in,
+ * then any other project file named in the stack trace, then the entry page.
+ */
+export function relevantFiles<T extends RepairFile>(
+  files: T[],
+  stack: string | undefined,
+  location?: SourceLocation
+): T[] {
+  const mentioned = files.filter((f) => stack?.includes(`${f.path}:`));
+  const page = files.find((f) => f.path === "index.html");
+  const ordered = [files.find((f) => f.path === location?.path), ...mentioned, page].filter(Boolean);
+
+  return [...new Set(ordered)].slice(0, MAX_FILES);
+}
+
+/** The chat message that asks the assistant to fix a preview error. */
+export function buildFixPrompt(
+  event: PreviewEvent,
+  location: SourceLocation | undefined,
+  files: RepairFile[]
+): string {
+  if (event.type === "network") {
+    throw new Error("Network entries are not errors");
+  }
+
+  const message = event.type === "error" ? event.message : event.args.join(" ");
+  const sections = [
+    "The preview shows this error. Find the cause and fix it with the file tools.",
+    "```\n" + message + "\n```",
+  ];
+
+  if (location) {
+    sections.push(`Thrown at ${location.path}:${location.line}:${location.column}`);
+  }
+  if (event.stack) {
+    sections.push("Stack trace:\n```\n" + event.stack.trim() + "\n```");
+  }
+
+  for (const file of relevantFiles(files, event.stack, location)) {
+    const content = file.content ?? "";
+    const truncated =
+      content.length > MAX_FILE_CHARS ? `${content.slice(0, MAX_FILE_CHARS)}\n… (truncated)` : content;
+    sections.push(`${file.path}:\n\`\`\`\n${truncated}\n\`\`\``);
+  }
+
+  return sections.join("\n\n");
+}
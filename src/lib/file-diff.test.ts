@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { applyHunks, computeHunks, diffFileSets, toSideBySideRows } from "./file-diff";
+
+const lines = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`);
+
+// Two changes far enough apart to land in separate hunks
+const OLD = lines(20).join("\n") + "\n";
+const NEW = lines(20)
+  .map((line, i) => (i === 1 ? "line two" : i === 17 ? "line eighteen" : line))
+  .join("\n") + "\n";
+
+describe("applyHunks", () => {
+  const hunks = computeHunks(OLD, NEW);
+
+  it("keeps every change when all hunks are accepted", () => {
+    expect(hunks).toHaveLength(2);
+    expect(applyHunks(OLD, hunks, new Set([0, 1]))).toBe(NEW);
+  });
+
+  it("keeps only the accepted hunks", () => {
+    const first = applyHunks(OLD, hunks, new Set([0]));
+    expect(first).toContain("line two");
+    expect(first).toContain("line 18");
+
+    const second = applyHunks(OLD, hunks, new Set([1]));
+    expect(second).toContain("line 2\n");
+    expect(second).toContain("line eighteen");
+  });
+
+  it("returns the old content when nothing is accepted", () => {
+    expect(applyHunks(OLD, hunks, new Set())).toBe(OLD);
+  });
+
+  it("throws when the file changed under the hunks", () => {
+    expect(() => applyHunks(OLD.replace("line 2\n", "changed\n"), hunks, new Set([0]))).toThrow(
+      "Selected changes no longer apply cleanly"
+    );
+  });
+});
+
+describe("toSideBySideRows", () => {
+  it("pairs removed and added lines next to the unchanged ones", () => {
+    const [hunk] = computeHunks("a\nb\nc\n", "a\nB\nc\nd\n");
+
+    expect(toSideBySideRows(hunk)).toEqual([
+      { left: { number: 1, text: "a", changed: false }, right: { number: 1, text: "a", changed: false } },
+      { left: { number: 2, text: "b", changed: true }, right: { number: 2, text: "B", changed: true } },
+      { left: { number: 3, text: "c", changed: false }, right: { number: 3, text: "c", changed: false } },
+      { left: null, right: { number: 4, text: "d", changed: true } },
+    ]);
+  });
+});
+
+describe("diffFileSets", () => {
+  it("lists added, removed and modified files by path", () => {
+    const from = new Map([
+      ["a.ts", "a"],
+      ["b.ts", "b"],
+      ["c.ts", "c"],
+    ]);
+    const to = new Map([
+      ["a.ts", "a"],
+      ["c.ts", "C"],
+      ["d.ts", "d"],
+    ]);
+
+    expect(diffFileSets(from, to).map(({ path, status }) => [path, status])).toEqual([
+      ["b.ts", "removed"],
+      ["c.ts", "modified"],
+      ["d.ts", "added"],
+    ]);
+  });
+});
@@ -0,0 +1,92 @@
+import { applyPatch, structuredPatch, type StructuredPatchHunk } from "diff";
+
+export type DiffHunk = StructuredPatchHunk;
+
+export interface SideBySideRow {
+  left: { number: number; text: string; changed: boolean } | null;
+  right: { number: number; text: string; changed: boolean } | null;
+}
+
+export function computeHunks(oldContent: string, newContent: string, context = 3): DiffHunk[] {
+  return structuredPatch("a", "b", oldContent, newContent, "", "", { context }).hunks;
+}
+
+/** Rebuilds the new content from the old one keeping only the accepted hunks. */
+export function applyHunks(oldContent: string, hunks: DiffHunk[], accepted: Set<number>): string {
+  const patched = applyPatch(oldContent, {
+    oldFileName: "a",
+    newFileName: "b",
+    oldHeader: "",
+    newHeader: "",
+    hunks: hunks.filter((_, index) => accepted.has(index)),
+  });
+
+  if (patched === false) {
+    throw new Error("Selected changes no longer apply cleanly");
+  }
+  return patched;
+}
+
+/** Pairs removed and added lines of a hunk into side-by-side rows. */
+export function toSideBySideRows(hunk: DiffHunk): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let oldNumber = hunk.oldStart;
+  let newNumber = hunk.newStart;
+  let removed: SideBySideRow["left"][] = [];
+  let added: SideBySideRow["right"][] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i] ?? null, right: added[i] ?? null });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of hunk.lines) {
+    const text = line.slice(1);
+    if (line[0] === "-") {
+      removed.push({ number: oldNumber++, text, changed: true });
+    } else if (line[0] === "+") {
+      added.push({ number: newNumber++, text, changed: true });
+    } else if (line[0] === " ") {
+      flush();
+      rows.push({
+        left: { number: oldNumber++, text, changed: false },
+        right: { number: newNumber++, text, changed: false },
+      });
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+export interface FileSetChange {
+  path: string;
+  status: "added" | "removed" | "modified";
+  hunks: DiffHunk[];
+}
+
+/** Lists the files that differ between two snapshots keyed by path. */
+export function diffFileSets(
+  from: Map<string, string | null>,
+  to: Map<string, string | null>
+): FileSetChange[] {
+  const paths = [...new Set([...from.keys(), ...to.keys()])].sort();
+
+  return paths.flatMap((path): FileSetChange[] => {
+    const before = from.get(path);
+    const after = to.get(path);
+
+    if (!from.has(path)) {
+      return [{ path, status: "added", hunks: computeHunks("", after ?? "") }];
+    }
+    if (!to.has(path)) {
+      return [{ path, status: "removed", hunks: computeHunks(before ?? "", "") }];
+    }
+    if ((before ?? "") === (after ?? "")) return [];
+
+    return [{ path, status: "modified", hunks: computeHunks(before ?? "", after ?? "") }];
+  });
+}
@@ -0,0 +1,102 @@
+export interface TreeFile {
+  id: string;
+  path: string;
+}
+
+export interface FileTreeNode<T extends TreeFile = TreeFile> {
+  name: string;
+  path: string;
+  type: "folder" | "file";
+  children: FileTreeNode<T>[];
+  file?: T;
+}
+
+const LANGUAGES: Record<string, string> = {
+  html: "html",
+  htm: "html",
+  css: "css",
+  js: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  jsx: "jsx",
+  ts: "typescript",
+  tsx: "tsx",
+  json: "json",
+  md: "markdown",
+  svg: "xml",
+  xml: "xml",
+};
+
+export function languageFromPath(path: string): string {
+  const extension = path.split(".").pop()?.toLowerCase() ?? "";
+  return LANGUAGES[extension] ?? "plaintext";
+}
+
+/**
+ * Cleans up a user-entered path. Returns null for paths that would escape
+ * the project root or contain empty segments.
+ */
+export function normalizePath(input: string): string | null {
+  const path = input.trim().replace(/^\/+|\/+$/g, "");
+  const segments = path.split("/");
+
+  if (!path || segments.some((segment) => !segment.trim() || segment === "." || segment === "..")) {
+    return null;
+  }
+  return segments.map((segment) => segment.trim()).join("/");
+}
+
+export const parentPath = (path: string) => path.split("/").slice(0, -1).join("/");
+
+export const joinPath = (folder: string, name: string) => (folder ? `${folder}/${name}` : name);
+
+/** Files at `path`, or below it when `path` is a folder. */
+export function filesUnder<T extends TreeFile>(files: T[], path: string): T[] {
+  return files.filter((file) => file.path === path || file.path.startsWith(`${path}/`));
+}
+
+/** Builds a folder tree from flat paths, folders first, then alphabetical. */
+export function buildFileTree<T extends TreeFile>(files: T[]): FileTreeNode<T>[] {
+  const root: FileTreeNode<T> = { name: "", path: "", type: "folder", children: [] };
+
+  for (const file of files) {
+    const segments = file.path.split("/");
+    let node = root;
+
+    segments.forEach((segment, index) => {
+      const path = segments.slice(0, index + 1).join("/");
+      const isFile = index === segments.length - 1;
+      let child = node.children.find(
+        (c) => c.name === segment && c.type === (isFile ? "file" : "folder")
+      );
+
+      if (!child) {
+        child = { name: segment, path, type: isFile ? "file" : "folder", children: [] };
+        node.children.push(child);
+      }
+      if (isFile) child.file = file;
+      node = child;
+    });
+  }
+
+  const sort = (nodes: FileTreeNode<T>[]) => {
+    nodes.sort((a, b) =>
+      a.type === b.type ? a.name.localeCompare(b.name) : a.type === "folder" ? -1 : 1
+    );
+    nodes.forEach((node) => sort(node.children));
+  };
+  sort(root.children);
+
+  return root.children;
+}
+
+/**
+ * Returns the existing path that `path` would clash with: the same path, a
+ * file where a folder is needed, or a folder where a file is needed.
+ */
+export function findPathConflict(paths: string[], path: string): string | undefined {
+  return paths.find(
+    (existing) =>
+      existing === path || existing.startsWith(`${path}/`) || path.startsWith(`${existing}/`)
+  );
+}
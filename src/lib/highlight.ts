@@ -0,0 +1,63 @@
+import { highlightCode, tagHighlighter, tags } from "@lezer/highlight";
+import { javascriptLanguage } from "@codemirror/lang-javascript";
+import { cssLanguage } from "@codemirror/lang-css";
+import { htmlLanguage } from "@codemirror/lang-html";
+import { jsonLanguage } from "@codemirror/lang-json";
+
+/** A run of text with the Tailwind classes for its syntax highlighting. */
+export interface HighlightedToken {
+  text: string;
+  className: string;
+}
+
+// Static highlighting for code in chat messages, using the editor's parsers
+const PARSERS: Record<string, typeof javascriptLanguage.parser> = {
+  javascript: javascriptLanguage.parser,
+  jsx: javascriptLanguage.parser.configure({ dialect: "jsx" }),
+  typescript: javascriptLanguage.parser.configure({ dialect: "ts" }),
+  tsx: javascriptLanguage.parser.configure({ dialect: "jsx ts" }),
+  css: cssLanguage.parser,
+  html: htmlLanguage.parser,
+  json: jsonLanguage.parser,
+};
+
+const ALIASES: Record<string, string> = {
+  js: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  ts: "typescript",
+  htm: "html",
+};
+
+const highlighter = tagHighlighter([
+  { tag: [tags.keyword, tags.modifier, tags.operatorKeyword], class: "text-purple-600 dark:text-purple-400" },
+  { tag: [tags.string, tags.special(tags.string), tags.regexp], class: "text-green-700 dark:text-green-400" },
+  { tag: [tags.number, tags.bool, tags.null, tags.atom], class: "text-orange-600 dark:text-orange-400" },
+  { tag: [tags.comment, tags.meta], class: "text-muted-foreground italic" },
+  { tag: [tags.function(tags.variableName), tags.function(tags.propertyName)], class: "text-blue-600 dark:text-blue-400" },
+  { tag: [tags.typeName, tags.className, tags.tagName], class: "text-red-600 dark:text-red-400" },
+  { tag: [tags.propertyName, tags.attributeName], class: "text-sky-700 dark:text-sky-300" },
+]);
+
+export function canHighlight(language: string): boolean {
+  return (ALIASES[language] ?? language) in PARSERS;
+}
+
+/**
+ * Splits code into highlighted lines. Languages without a parser come back
+ * as plain text.
+ */
+export function highlightLines(code: string, language: string): HighlightedToken[][] {
+  const parser = PARSERS[ALIASES[language] ?? language];
+  if (!parser) return code.split("\n").map(text => [{ text, className: "" }]);
+
+  const lines: HighlightedToken[][] = [[]];
+  highlightCode(
+    code,
+    parser.parse(code),
+    highlighter,
+    (text, className) => lines[lines.length - 1].push({ text, className }),
+    () => lines.push([])
+  );
+  return lines;
+}
@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  PreviewFile,
+  buildPreview,
+  buildStylesheets,
+  classifyChange,
+  defaultPage,
+  mapStackPaths,
+  resolveReference,
+  withScaffoldPage,
+} from "./preview";
+
+// jsdom has no object URLs; keep the blobs so tests can read what was served
+let blobs: Map<string, Blob>;
+
+beforeEach(() => {
+  blobs = new Map();
+  URL.createObjectURL = (blob: Blob) => {
+    const url = `blob:preview/${blobs.size + 1}`;
+    blobs.set(url, blob);
+    return url;
+  };
+});
+
+afterEach(() => {
+  delete URL.createObjectURL;
+});
+
+const served = (url: string) =>
+  new Promise<string>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blobs.get(url));
+  });
+
+const pageOf = (html: string) => new DOMParser().parseFromString(html, "text/html");
+
+describe("resolveReference", () => {
+  it("resolves relative and root-relative URLs", () => {
+    expect(resolveReference("pages/about.html", "../css/site.css?v=2")).toBe("css/site.css");
+    expect(resolveReference("pages/about.html", "/img/a%20b.png")).toBe("img/a b.png");
+    expect(resolveReference("index.html", "../secret")).toBeNull();
+  });
+});
+
+describe("classifyChange", () => {
+  const files: PreviewFile[] = [
+    { path: "index.html", content: "<p>Hi</p>" },
+    { path: "style.css", content: "p {}" },
+  ];
+
+  it("swaps styles when only stylesheets changed", () => {
+    expect(classifyChange(files, files)).toBe("none");
+    expect(classifyChange(files, [files[0], { path: "style.css", content: "p { color: red }" }])).toBe("styles");
+  });
+
+  it("reloads for anything else", () => {
+    expect(classifyChange(files, [{ path: "index.html", content: "<p>Bye</p>" }, files[1]])).toBe("reload");
+    expect(classifyChange(files, [files[0]])).toBe("reload");
+  });
+});
+
+describe("withScaffoldPage", () => {
+  it("adds a page that loads the script entry", () => {
+    const files = withScaffoldPage([{ path: "src/main.tsx", content: "" }]);
+
+    expect(defaultPage(files)).toBe("index.html");
+    expect(files[1].content).toContain('<script type="module" src="/src/main.tsx"></script>');
+  });
+
+  it("leaves projects with a page alone", () => {
+    const files = [
+      { path: "about.html", content: "" },
+      { path: "src/main.tsx", content: "" },
+    ];
+    expect(withScaffoldPage(files)).toBe(files);
+  });
+});
+
+describe("buildPreview", () => {
+  it("compiles module scripts and wires imports through the import map", async () => {
+    const build = buildPreview(
+      [
+        { path: "index.html", content: '<div id="root"></div><script type="module" src="src/main.tsx"></script>' },
+        {
+          path: "src/main.tsx",
+          content: 'import { greet } from "./greet";\nimport React from "react";\nconst el: JSX.Element = <p>{greet()}</p>;',
+        },
+        { path: "src/greet.ts", content: "export const greet = (): string => 'hi';" },
+        { path: "package.json", content: '{"dependencies":{"react":"^18.3.1"}}' },
+      ],
+      "index.html"
+    );
+
+    const page = pageOf(build.html);
+    const imports = JSON.parse(page.querySelector('script[type="importmap"]').textContent).imports;
+    expect(imports.react).toBe("https://esm.sh/react@^18.3.1");
+    expect(build.sourcePaths[imports["project:src/greet.ts"]]).toBe("src/greet.ts");
+
+    const main = await served(page.querySelector('script[type="module"]').getAttribute("src"));
+    expect(main).toContain('from "project:src/greet.ts"');
+    expect(main).not.toContain("JSX.Element");
+    expect(build.errors).toEqual([]);
+  });
+
+  it("reports files that do not compile and still renders the page", () => {
+    const build = buildPreview(
+      [
+        { path: "index.html", content: '<script type="module" src="app.ts"></script>' },
+        { path: "app.ts", content: "const = 1;" },
+      ],
+      "index.html"
+    );
+
+    expect(build.errors).toMatchObject([{ path: "app.ts" }]);
+    expect(build.html).toContain("<script");
+  });
+
+  it("compiles classic TypeScript and JSX scripts", async () => {
+    const build = buildPreview(
+      [
+        { path: "index.html", content: '<script src="app.ts"></script><script src="broken.tsx"></script>' },
+        { path: "app.ts", content: "const count: number = 1;\nconsole.log(count);" },
+        { path: "broken.tsx", content: "const = <p>;" },
+      ],
+      "index.html"
+    );
+
+    const [app, broken] = [...pageOf(build.html).querySelectorAll("script[src]")].map((s) => s.getAttribute("src"));
+    expect(await served(app)).toBe("const count = 1;\nconsole.log(count);");
+    expect(await served(broken)).toMatch(/^throw new SyntaxError\("broken\.tsx: /);
+    expect(build.errors).toMatchObject([{ path: "broken.tsx" }]);
+  });
+
+  it("serves stylesheets and lists them for swapping", async () => {
+    const build = buildPreview(
+      [
+        { path: "index.html", content: '<link rel="stylesheet" href="css/site.css">' },
+        { path: "css/site.css", content: 'body { background: url("../bg.png") }' },
+        { path: "bg.png", content: "data:image/png;base64,AAAA" },
+      ],
+      "index.html"
+    );
+
+    const link = pageOf(build.html).querySelector("link");
+    expect(link.getAttribute("data-preview-path")).toBe("css/site.css");
+    expect(build.stylesheets).toEqual({ "css/site.css": link.getAttribute("href") });
+    expect(await served(link.getAttribute("href"))).toBe('body { background: url("data:image/png;base64,AAAA") }');
+  });
+
+  it("rebuilds only the stylesheets after CSS edits", async () => {
+    const files = [
+      { path: "index.html", content: '<link rel="stylesheet" href="site.css"><script type="module" src="app.tsx"></script>' },
+      { path: "site.css", content: '@import "theme.css";\nbody { background: url("bg.png") }' },
+      { path: "theme.css", content: "p { color: red }" },
+      { path: "bg.png", content: "AAAA" },
+      { path: "app.tsx", content: "export const App = () => <p />;" },
+    ];
+    const build = buildPreview(files, "index.html");
+
+    const edited = files.map((f) => (f.path === "theme.css" ? { ...f, content: "p { color: blue }" } : f));
+    const swap = buildStylesheets(edited, build.assets);
+
+    expect(Object.values(swap.sourcePaths).sort()).toEqual(["site.css", "theme.css"]);
+    expect(await served(swap.stylesheets["theme.css"])).toBe("p { color: blue }");
+    expect(await served(swap.stylesheets["site.css"])).toBe(
+      `@import "${swap.stylesheets["theme.css"]}";\nbody { background: url("${build.assets["bg.png"]}") }`
+    );
+  });
+
+  it("maps stack traces back to project files", () => {
+    const build = buildPreview(
+      [
+        { path: "index.html", content: '<script type="module" src="app.js"></script>' },
+        { path: "app.js", content: "throw new Error('boom');" },
+      ],
+      "index.html"
+    );
+    const [url] = build.objectUrls;
+
+    expect(mapStackPaths(`Error: boom\n    at ${url}:1:7`, build.sourcePaths)).toBe("Error: boom\n    at app.js:1:7");
+  });
+});
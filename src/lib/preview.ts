@@ -0,0 +1,686 @@
+import { transform } from "sucrase";
+
+export interface PreviewFile {
+  path: string;
+  content: string | null;
+}
+
+export interface PreviewError {
+  path: string;
+  message: string;
+}
+
+export interface SourceLocation {
+  path: string;
+  line: number;
+  column: number;
+}
+
+/** What the bridge script reports from inside the preview. */
+export type PreviewEvent =
+  | { type: "console"; level: "log" | "info" | "warn" | "error" | "debug"; args: string[]; stack?: string }
+  | { type: "error"; message: string; stack?: string; url?: string; line?: number; column?: number }
+  | { type: "network"; method: string; url: string; status?: number; error?: string; duration: number };
+
+export interface PreviewBuild {
+  html: string;
+  /** Blob URLs backing this build; revoke them once it has been replaced. */
+  objectUrls: string[];
+  /** Project path served by each blob URL, for mapping stack traces back to files. */
+  sourcePaths: Record<string, string>;
+  /** Files that failed to compile; the page still renders without them. */
+  errors: PreviewError[];
+  /** URL of every file served as an asset, stylesheets included, by project path. */
+  assets: Record<string, string>;
+  /** Blob URL of every stylesheet by project path, for swapping styles in place. */
+  stylesheets: Record<string, string>;
+}
+
+export interface PreviewOptions {
+  /** Scroll position to restore once the page has loaded */
+  scroll?: { x: number; y: number };
+}
+
+/** Marks postMessage events sent by the scripts injected into the preview. */
+export const PREVIEW_MESSAGE_SOURCE = "project-preview";
+
+// Project modules are imported through `project:<path>` specifiers that the
+// page's import map points at blob URLs. Blob URLs cannot serve as a base for
+// relative imports, and the indirection lets modules import each other in cycles.
+const MODULE_SCHEME = "project:";
+
+// Bare imports such as `react` are loaded from here, pinned to the versions in
+// the project's package.json when it has one. Point it at a local mirror to
+// preview offline.
+const PACKAGE_CDN_URL = (import.meta.env.VITE_PREVIEW_CDN_URL || "https://esm.sh/").replace(/\/?$/, "/");
+
+const MIME_TYPES: Record<string, string> = {
+  html: "text/html",
+  css: "text/css",
+  js: "text/javascript",
+  mjs: "text/javascript",
+  jsx: "text/javascript",
+  ts: "text/javascript",
+  tsx: "text/javascript",
+  json: "application/json",
+  txt: "text/plain",
+  svg: "image/svg+xml",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  ico: "image/x-icon",
+  woff: "font/woff",
+  woff2: "font/woff2",
+  ttf: "font/ttf",
+  otf: "font/otf",
+};
+
+// Stored as base64 (or a data: URL) because `files.content` is text
+const BINARY_EXTENSIONS = new Set(["png", "jpg", "jpeg", "gif", "webp", "avif", "ico", "woff", "woff2", "ttf", "otf"]);
+
+const MODULE_EXTENSIONS = [
+  "",
+  ".js",
+  ".mjs",
+  ".jsx",
+  ".ts",
+  ".tsx",
+  "/index.js",
+  "/index.jsx",
+  "/index.ts",
+  "/index.tsx",
+];
+
+const COMPILED_EXTENSIONS = new Set(["jsx", "ts", "tsx"]);
+
+// Where a page-less React project starts, in order of preference
+const SCRIPT_ENTRIES = ["src/main", "src/index", "main", "index"].flatMap((base) =>
+  [".tsx", ".jsx", ".ts", ".js"].map((extension) => base + extension)
+);
+const COMPONENT_ENTRIES = ["src/App.tsx", "src/App.jsx", "App.tsx", "App.jsx"];
+
+const CSS_URL_PATTERN = /url\(\s*(['"]?)([^'")]+)\1\s*\)/g;
+const CSS_IMPORT_PATTERN = /@import\s+(['"])([^'"]+)\1/g;
+// Static imports, re-exports and dynamic imports with a string literal specifier
+const MODULE_IMPORT_PATTERN = /(\bimport\s*\(\s*|\bfrom\s*|\bimport\s+)(["'])([^"'\n]+)\2/g;
+
+// Injected ahead of the page's own scripts. Reports console output, uncaught
+// errors, fetch calls and scrolling to the parent window, turns clicks on
+// links to other project pages into `navigate` messages, and swaps in
+// stylesheets the parent sends with `css-update`.
+const BRIDGE_SCRIPT = `
+(function () {
+  function send(message) {
+    message.source = "${PREVIEW_MESSAGE_SOURCE}";
+    try {
+      parent.postMessage(message, "*");
+    } catch (e) {}
+  }
+
+  function format(value) {
+    if (value instanceof Error) return value.stack || String(value);
+    if (typeof value === "string") return value;
+    if (typeof value === "function") return "ƒ " + (value.name || "anonymous") + "()";
+    if (value instanceof Element) return "<" + value.tagName.toLowerCase() + ">";
+    if (value === undefined || typeof value === "symbol" || typeof value === "bigint") return String(value);
+    try {
+      var seen = [];
+      return JSON.stringify(value, function (key, item) {
+        if (typeof item === "bigint") return String(item);
+        if (typeof item === "object" && item !== null) {
+          if (seen.indexOf(item) !== -1) return "[Circular]";
+          seen.push(item);
+        }
+        return item;
+      }, 2);
+    } catch (e) {
+      return String(value);
+    }
+  }
+
+  ["log", "info", "warn", "error", "debug"].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      var args = Array.prototype.slice.call(arguments);
+      send({ type: "console", level: level, args: args.map(format), stack: new Error().stack });
+      return original.apply(console, args);
+    };
+  });
+
+  window.addEventListener("error", function (event) {
+    send({
+      type: "error",
+      message: event.message,
+      stack: event.error && event.error.stack,
+      url: event.filename,
+      line: event.lineno,
+      column: event.colno,
+    });
+  });
+
+  window.addEventListener("unhandledrejection", function (event) {
+    var reason = event.reason;
+    send({
+      type: "error",
+      message: "Unhandled promise rejection: " + (reason instanceof Error ? reason.message : format(reason)),
+      stack: reason && reason.stack,
+    });
+  });
+
+  var originalFetch = window.fetch;
+  window.fetch = function (input, init) {
+    var request = input instanceof Request ? input : null;
+    var method = ((init && init.method) || (request ? request.method : "GET")).toUpperCase();
+    var url = request ? request.url : String(input);
+    var started = performance.now();
+    return originalFetch.apply(this, arguments).then(
+      function (response) {
+        send({ type: "network", method: method, url: url, status: response.status, duration: Math.round(performance.now() - started) });
+        return response;
+      },
+      function (error) {
+        send({ type: "network", method: method, url: url, error: String((error && error.message) || error), duration: Math.round(performance.now() - started) });
+        throw error;
+      }
+    );
+  };
+
+  var script = document.currentScript;
+  var restoreX = Number(script.getAttribute("data-scroll-x")) || 0;
+  var restoreY = Number(script.getAttribute("data-scroll-y")) || 0;
+  if (restoreX || restoreY) {
+    var restore = function () {
+      window.scrollTo(restoreX, restoreY);
+    };
+    // Apps that render after load get a second chance
+    window.addEventListener("load", function () {
+      restore();
+      setTimeout(restore, 100);
+    });
+  }
+
+  var scrollTimer;
+  window.addEventListener("scroll", function () {
+    clearTimeout(scrollTimer);
+    scrollTimer = setTimeout(function () {
+      send({ type: "scroll", x: window.scrollX, y: window.scrollY });
+    }, 100);
+  }, { passive: true });
+
+  window.addEventListener("message", function (event) {
+    var data = event.data;
+    if (event.source !== parent || !data || data.source !== "${PREVIEW_MESSAGE_SOURCE}") return;
+    if (data.type !== "css-update") return;
+
+    document.querySelectorAll("link[data-preview-path]").forEach(function (link) {
+      var href = data.stylesheets[link.getAttribute("data-preview-path")];
+      if (href && link.getAttribute("href") !== href) link.setAttribute("href", href);
+    });
+  });
+
+  document.addEventListener("click", function (event) {
+    var link = event.target instanceof Element && event.target.closest("a[data-preview-page]");
+    if (!link) return;
+    event.preventDefault();
+    send({ type: "navigate", path: link.getAttribute("data-preview-page") });
+  });
+})();
+`;
+
+// blob:<origin>/<uuid>:<line>:<column> in Chrome and Firefox stack traces
+const STACK_FRAME_PATTERN = /(blob:[^\s()@]+?):(\d+):(\d+)/g;
+
+const extensionOf = (path: string) => path.split(".").pop()?.toLowerCase() ?? "";
+
+const isRelative = (ref: string) => /^(\.{1,2})?\//.test(ref);
+
+/**
+ * Finds the first project file location in a stack trace. Compiling and
+ * rewriting keep every statement on its original line, so line numbers in the
+ * blob modules are line numbers in the project files.
+ */
+export function findSourceLocation(
+  stack: string | undefined,
+  sourcePaths: Record<string, string>
+): SourceLocation | undefined {
+  for (const [, url, line, column] of (stack ?? "").matchAll(STACK_FRAME_PATTERN)) {
+    if (sourcePaths[url]) return { path: sourcePaths[url], line: Number(line), column: Number(column) };
+  }
+  return undefined;
+}
+
+/**
+ * How the preview has to react to a change in files: not at all, by swapping
+ * stylesheets in place, or by reloading the page.
+ */
+export function classifyChange(previous: PreviewFile[], next: PreviewFile[]): "none" | "styles" | "reload" {
+  if (previous.length !== next.length) return "reload";
+
+  const before = new Map(previous.map((f) => [f.path, f.content]));
+  let change: "none" | "styles" = "none";
+
+  for (const file of next) {
+    if (!before.has(file.path)) return "reload";
+    if (before.get(file.path) === file.content) continue;
+    if (extensionOf(file.path) !== "css") return "reload";
+    change = "styles";
+  }
+  return change;
+}
+
+/** Replaces blob URLs in a stack trace with the project paths they serve. */
+export function mapStackPaths(stack: string, sourcePaths: Record<string, string>): string {
+  return stack.replace(STACK_FRAME_PATTERN, (match, url, line, column) =>
+    sourcePaths[url] ? `${sourcePaths[url]}:${line}:${column}` : match
+  );
+}
+
+export const isHtmlFile = (path: string) => ["html", "htm"].includes(extensionOf(path));
+
+/** References the preview leaves alone: other origins, data:/blob: URLs and fragments. */
+const isExternal = (ref: string) => !ref.trim() || /^([a-z][a-z\d+.-]*:|\/\/|#)/i.test(ref.trim());
+
+const safeDecode = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+/**
+ * Resolves a URL used in `fromPath` to a project path. Root-relative URLs
+ * start at the project root. Returns null when the URL climbs above the root.
+ */
+export function resolveReference(fromPath: string, ref: string): string | null {
+  const path = ref.trim().split(/[?#]/)[0];
+  const segments = path.startsWith("/") ? [] : fromPath.split("/").slice(0, -1);
+
+  for (const segment of path.split("/")) {
+    if (segment === "" || segment === ".") continue;
+    if (segment === "..") {
+      if (segments.length === 0) return null;
+      segments.pop();
+    } else {
+      segments.push(safeDecode(segment));
+    }
+  }
+  return segments.join("/");
+}
+
+/** The page a project opens on: index.html when present, else the first HTML file. */
+export function defaultPage(files: PreviewFile[]): string | null {
+  const pages = files.map((f) => f.path).filter(isHtmlFile).sort();
+  return pages.find((path) => path === "index.html") ?? pages[0] ?? null;
+}
+
+const readPackageVersions = (packageJson: string | undefined): Record<string, string> => {
+  try {
+    const { dependencies, devDependencies } = JSON.parse(packageJson ?? "{}");
+    const versions: Record<string, string> = { ...devDependencies, ...dependencies };
+    // Only ranges a CDN understands; not workspace:, file: or git URLs
+    return Object.fromEntries(
+      Object.entries(versions).filter(([, version]) => /^[\^~]?\d/.test(String(version)))
+    );
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Adds an index.html that mounts the app to projects that have script
+ * entry points such as `src/main.tsx` or `src/App.tsx` but no page.
+ */
+export function withScaffoldPage<T extends PreviewFile>(files: T[]): (T | PreviewFile)[] {
+  if (files.some((f) => isHtmlFile(f.path))) return files;
+
+  const paths = new Set(files.map((f) => f.path));
+  const entry = SCRIPT_ENTRIES.find((path) => paths.has(path));
+  const component = COMPONENT_ENTRIES.find((path) => paths.has(path));
+  if (!entry && !component) return files;
+
+  const script = entry
+    ? `<script type="module" src="/${entry}"></script>`
+    : `<script type="module">
+    import { createElement } from "react";
+    import { createRoot } from "react-dom/client";
+    import App from "./${component}";
+
+    createRoot(document.getElementById("root")).render(createElement(App));
+  </script>`;
+
+  return [
+    ...files,
+    {
+      path: "index.html",
+      content: `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Preview</title>
+</head>
+<body>
+  <div id="root"></div>
+  ${script}
+</body>
+</html>`,
+    },
+  ];
+}
+
+const toBlobPart = (content: string, extension: string): BlobPart => {
+  if (!BINARY_EXTENSIONS.has(extension)) return content;
+  try {
+    const bytes = atob(content.replace(/\s/g, ""));
+    return Uint8Array.from(bytes, (char) => char.charCodeAt(0));
+  } catch {
+    return content;
+  }
+};
+
+/**
+ * Serves project files from blob URLs as pages and stylesheets reference
+ * them, rewriting `url()` and `@import` in stylesheets on the way. Files in
+ * `served` already have a URL, which is reused.
+ */
+const createAssetServer = (contents: Map<string, string>, served: Record<string, string> = {}) => {
+  const objectUrls: string[] = [];
+  const sourcePaths: Record<string, string> = {};
+  const assetUrls = new Map(Object.entries(served));
+  // Stylesheets being built, to break @import cycles
+  const building = new Set<string>();
+
+  const createUrl = (content: BlobPart, type: string, path: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    objectUrls.push(url);
+    sourcePaths[url] = path;
+    return url;
+  };
+
+  const fragmentOf = (ref: string) => (ref.includes("#") ? ref.slice(ref.indexOf("#")) : "");
+
+  const assetUrl = (path: string): string | undefined => {
+    if (assetUrls.has(path)) return assetUrls.get(path);
+    if (building.has(path)) return undefined;
+
+    const content = contents.get(path);
+    const extension = extensionOf(path);
+    let url: string;
+
+    if (content.startsWith("data:")) {
+      url = content;
+    } else if (extension === "css") {
+      building.add(path);
+      url = createUrl(rewriteCss(content, path), MIME_TYPES.css, path);
+      building.delete(path);
+    } else {
+      url = createUrl(toBlobPart(content, extension), MIME_TYPES[extension] ?? "text/plain", path);
+    }
+
+    assetUrls.set(path, url);
+    return url;
+  };
+
+  const referenceUrl = (fromPath: string, ref: string) => {
+    if (isExternal(ref)) return undefined;
+    const path = resolveReference(fromPath, ref);
+    if (path === null || !contents.has(path)) return undefined;
+
+    const url = assetUrl(path);
+    return url && url + fragmentOf(ref);
+  };
+
+  const rewriteCss = (css: string, fromPath: string) =>
+    css
+      .replace(CSS_URL_PATTERN, (match, _quote, ref) => {
+        const url = referenceUrl(fromPath, ref);
+        return url ? `url("${url}")` : match;
+      })
+      .replace(CSS_IMPORT_PATTERN, (match, _quote, ref) => {
+        const url = referenceUrl(fromPath, ref);
+        return url ? `@import "${url}"` : match;
+      });
+
+  return { objectUrls, sourcePaths, createUrl, assetUrls, assetUrl, referenceUrl, rewriteCss };
+};
+
+const stylesheetsOf = (assetUrls: Map<string, string>) =>
+  Object.fromEntries([...assetUrls].filter(([path]) => extensionOf(path) === "css"));
+
+/**
+ * Rebuilds only the stylesheets, for swapping them into a page built by
+ * buildPreview after CSS-only edits. Images and fonts keep the URLs in
+ * `assets` from that build.
+ */
+export function buildStylesheets(
+  files: PreviewFile[],
+  assets: Record<string, string>
+): Pick<PreviewBuild, "objectUrls" | "sourcePaths" | "stylesheets"> {
+  const contents = new Map(files.map((f) => [f.path, f.content ?? ""]));
+  const unchanged = Object.entries(assets).filter(([path]) => extensionOf(path) !== "css" && contents.has(path));
+  const { objectUrls, sourcePaths, assetUrls, assetUrl } = createAssetServer(contents, Object.fromEntries(unchanged));
+
+  for (const path of contents.keys()) {
+    if (extensionOf(path) === "css") assetUrl(path);
+  }
+
+  return { objectUrls, sourcePaths, stylesheets: stylesheetsOf(assetUrls) };
+}
+
+/**
+ * Renders `pagePath` as a self-contained document. Stylesheets, scripts,
+ * images and fonts it references are served from blob URLs, ES modules are
+ * wired up through an import map, and links to other pages are reported to
+ * the parent window as `navigate` messages.
+ */
+export function buildPreview(
+  files: PreviewFile[],
+  pagePath: string,
+  options: PreviewOptions = {}
+): PreviewBuild {
+  const contents = new Map(files.map((f) => [f.path, f.content ?? ""]));
+  const errors: PreviewError[] = [];
+  const packageVersions = readPackageVersions(contents.get("package.json"));
+  const importMap = new Map<string, string>();
+
+  const { objectUrls, sourcePaths, createUrl, assetUrls, assetUrl, referenceUrl, rewriteCss } =
+    createAssetServer(contents);
+
+  const moduleSpecifier = (fromPath: string, ref: string): string | undefined => {
+    if (!isRelative(ref)) return undefined;
+    const base = resolveReference(fromPath, ref);
+    const path =
+      base === null ? undefined : MODULE_EXTENSIONS.map((suffix) => base + suffix).find((p) => contents.has(p));
+    if (!path) return undefined;
+
+    const specifier = MODULE_SCHEME + path;
+    if (!importMap.has(specifier)) {
+      // Registered before building so that import cycles terminate
+      importMap.set(specifier, "");
+      importMap.set(specifier, createUrl(moduleSource(path), MIME_TYPES.js, path));
+    }
+    return specifier;
+  };
+
+  // Registers a bare import such as `react-dom/client` with the package CDN
+  const packageSpecifier = (ref: string): string | undefined => {
+    if (isRelative(ref) || isExternal(ref)) return undefined;
+
+    if (!importMap.has(ref)) {
+      const parts = ref.split("/");
+      const nameLength = ref.startsWith("@") ? 2 : 1;
+      const name = parts.slice(0, nameLength).join("/");
+      const subpath = parts.slice(nameLength).join("/");
+      const version = packageVersions[name];
+
+      importMap.set(
+        ref,
+        `${PACKAGE_CDN_URL}${name}${version ? `@${version}` : ""}${subpath ? `/${subpath}` : ""}`
+      );
+    }
+    return ref;
+  };
+
+  const rewriteModule = (code: string, fromPath: string) =>
+    code.replace(MODULE_IMPORT_PATTERN, (match, prefix, quote, ref) => {
+      const specifier = moduleSpecifier(fromPath, ref) ?? packageSpecifier(ref);
+      return specifier ? `${prefix}${quote}${specifier}${quote}` : match;
+    });
+
+  // JavaScript for a project file imported as a module. Stylesheets attach
+  // themselves to the page, JSON exports its value and anything else exports
+  // its URL, the way bundlers treat them.
+  const moduleSource = (path: string) => {
+    const content = contents.get(path);
+    const extension = extensionOf(path);
+
+    if (extension === "css") {
+      return `const link = document.createElement("link");
+link.rel = "stylesheet";
+link.dataset.previewPath = ${JSON.stringify(path)};
+link.href = ${JSON.stringify(assetUrl(path))};
+document.head.appendChild(link);`;
+    }
+    if (extension === "json") {
+      return `export default ${content.trim() || "null"};`;
+    }
+    if (!["js", "mjs", ...COMPILED_EXTENSIONS].includes(extension)) {
+      return `export default ${JSON.stringify(assetUrl(path))};`;
+    }
+    if (!COMPILED_EXTENSIONS.has(extension)) {
+      return rewriteModule(content, path);
+    }
+
+    return rewriteModule(compile(content, path), path);
+  };
+
+  // TypeScript and JSX to plain JavaScript. Code that does not compile is
+  // recorded and replaced by a statement that throws the compile error.
+  const compile = (content: string, path: string) => {
+    const extension = extensionOf(path);
+    try {
+      return transform(content, {
+        transforms: extension === "ts" ? ["typescript"] : extension === "jsx" ? ["jsx"] : ["typescript", "jsx"],
+        jsxRuntime: "automatic",
+        production: true,
+        disableESTransforms: true,
+        filePath: path,
+      }).code;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      errors.push({ path, message });
+      return `throw new SyntaxError(${JSON.stringify(`${path}: ${message}`)});`;
+    }
+  };
+
+  // Classic scripts get no import map, so they are compiled but not rewritten
+  const classicScriptUrl = (ref: string): string | undefined => {
+    if (isExternal(ref)) return undefined;
+    const path = resolveReference(pagePath, ref);
+    if (path === null || !contents.has(path) || !COMPILED_EXTENSIONS.has(extensionOf(path))) return undefined;
+
+    return createUrl(compile(contents.get(path), path), MIME_TYPES.js, path);
+  };
+
+  const pageFor = (ref: string) => {
+    if (isExternal(ref)) return undefined;
+    const path = resolveReference(pagePath, ref);
+    if (path === null) return undefined;
+
+    const candidates = path ? [path, `${path}.html`, `${path}/index.html`] : ["index.html"];
+    return candidates.find((p) => contents.has(p) && isHtmlFile(p));
+  };
+
+  const doc = new DOMParser().parseFromString(contents.get(pagePath) ?? "", "text/html");
+
+  const rewriteAttribute = (element: Element, attribute: string) => {
+    const url = referenceUrl(pagePath, element.getAttribute(attribute) ?? "");
+    if (url) element.setAttribute(attribute, url);
+  };
+
+  doc.querySelectorAll("link[href]").forEach((el) => {
+    const path = resolveReference(pagePath, el.getAttribute("href"));
+    rewriteAttribute(el, "href");
+    // Stylesheets the parent can swap in without reloading the page
+    if (path && extensionOf(path) === "css" && assetUrls.has(path)) {
+      el.setAttribute("data-preview-path", path);
+    }
+  });
+  doc
+    .querySelectorAll("img[src], source[src], video[src], audio[src], track[src], iframe[src], embed[src]")
+    .forEach((el) => rewriteAttribute(el, "src"));
+  doc.querySelectorAll("video[poster]").forEach((el) => rewriteAttribute(el, "poster"));
+  doc.querySelectorAll("object[data]").forEach((el) => rewriteAttribute(el, "data"));
+
+  doc.querySelectorAll("img[srcset], source[srcset]").forEach((el) => {
+    const srcset = el
+      .getAttribute("srcset")
+      .split(",")
+      .map((candidate) => {
+        const [ref, ...descriptors] = candidate.trim().split(/\s+/);
+        return [referenceUrl(pagePath, ref) ?? ref, ...descriptors].join(" ");
+      });
+    el.setAttribute("srcset", srcset.join(", "));
+  });
+
+  doc.querySelectorAll("style").forEach((el) => {
+    el.textContent = rewriteCss(el.textContent ?? "", pagePath);
+  });
+  doc.querySelectorAll("[style]").forEach((el) => {
+    el.setAttribute("style", rewriteCss(el.getAttribute("style"), pagePath));
+  });
+
+  doc.querySelectorAll("script").forEach((script) => {
+    const isModule = script.getAttribute("type") === "module";
+    const src = script.getAttribute("src");
+
+    if (src === null) {
+      if (isModule) script.textContent = rewriteModule(script.textContent ?? "", pagePath);
+      return;
+    }
+
+    if (isModule) {
+      const specifier = moduleSpecifier(pagePath, isRelative(src) ? src : `./${src}`);
+      if (specifier) script.setAttribute("src", importMap.get(specifier));
+    } else {
+      const url = classicScriptUrl(src);
+      if (url) script.setAttribute("src", url);
+      else rewriteAttribute(script, "src");
+    }
+  });
+
+  doc.querySelectorAll("a[href]").forEach((link) => {
+    const page = pageFor(link.getAttribute("href"));
+    if (page) link.setAttribute("data-preview-page", page);
+  });
+
+  // The import map has to come before any module script
+  const head = doc.head;
+  const bridge = doc.createElement("script");
+  bridge.textContent = BRIDGE_SCRIPT;
+  if (options.scroll) {
+    bridge.setAttribute("data-scroll-x", String(options.scroll.x));
+    bridge.setAttribute("data-scroll-y", String(options.scroll.y));
+  }
+  head.prepend(bridge);
+
+  if (importMap.size > 0) {
+    const script = doc.createElement("script");
+    script.type = "importmap";
+    script.textContent = JSON.stringify({ imports: Object.fromEntries(importMap) }, null, 2);
+    head.prepend(script);
+  }
+
+  return {
+    html: `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`,
+    objectUrls,
+    sourcePaths,
+    errors,
+    assets: Object.fromEntries(assetUrls),
+    stylesheets: stylesheetsOf(assetUrls),
+  };
+}
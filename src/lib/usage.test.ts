@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { UsageRow, dailyUsage, periodStart, startOfMonth, totalUsage, usageBy } from "./usage";
+
+const row = (overrides: Partial<UsageRow>): UsageRow => ({
+  day: "2025-10-02",
+  project_id: "project-1",
+  model: "gpt-4o-mini",
+  calls: 1,
+  prompt_tokens: 100,
+  completion_tokens: 50,
+  cost_usd: 0.001,
+  total_latency_ms: 800,
+  ...overrides,
+});
+
+const NOW = new Date("2025-10-05T18:30:00Z");
+
+describe("periods", () => {
+  it("start at midnight UTC", () => {
+    expect(startOfMonth(NOW).toISOString()).toBe("2025-10-01T00:00:00.000Z");
+    expect(periodStart("month", NOW).toISOString()).toBe("2025-10-01T00:00:00.000Z");
+    expect(periodStart("30d", NOW).toISOString()).toBe("2025-09-06T00:00:00.000Z");
+  });
+});
+
+describe("totalUsage", () => {
+  it("adds up tokens, cost and latency", () => {
+    const totals = totalUsage([row({ calls: 2, total_latency_ms: 1000 }), row({ cost_usd: null })]);
+
+    expect(totals).toEqual({
+      calls: 3,
+      promptTokens: 200,
+      completionTokens: 100,
+      cost: 0.001,
+      averageLatencyMs: 600,
+    });
+  });
+
+  it("has no latency without calls", () => {
+    expect(totalUsage([]).averageLatencyMs).toBe(0);
+  });
+});
+
+describe("dailyUsage", () => {
+  it("lists every day of the period, including days without usage", () => {
+    const days = dailyUsage([row({}), row({ day: "2025-10-02" }), row({ day: "2025-09-30" })], startOfMonth(NOW), NOW);
+
+    expect(days.map((d) => d.day)).toEqual(["2025-10-01", "2025-10-02", "2025-10-03", "2025-10-04", "2025-10-05"]);
+    expect(days[1]).toEqual({ day: "2025-10-02", prompt: 200, completion: 100 });
+    expect(days[0]).toEqual({ day: "2025-10-01", prompt: 0, completion: 0 });
+  });
+});
+
+describe("usageBy", () => {
+  it("groups rows and puts the largest token count first", () => {
+    const groups = usageBy(
+      [row({ model: "a" }), row({ model: "b", prompt_tokens: 1000 }), row({ model: "a" })],
+      "model"
+    );
+
+    expect(groups.map(([model, totals]) => [model, totals.calls])).toEqual([
+      ["b", 1],
+      ["a", 2],
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+import type { Database } from "@/integrations/supabase/types";
+
+/**
+ * Aggregates for the usage dashboard. The ai_usage_summary function returns
+ * one row per day, project and model; these helpers total them up.
+ */
+export type UsageRow = Database["public"]["Functions"]["ai_usage_summary"]["Returns"][number];
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** Cost of the calls whose model has a known price */
+  cost: number;
+  averageLatencyMs: number;
+}
+
+export interface DailyUsage {
+  day: string;
+  prompt: number;
+  completion: number;
+}
+
+export const USAGE_PERIODS = [
+  { id: "month", label: "This month" },
+  { id: "30d", label: "Last 30 days" },
+  { id: "90d", label: "Last 90 days" },
+] as const;
+
+export type UsagePeriod = typeof USAGE_PERIODS[number]["id"];
+
+export const toDay = (date: Date) => date.toISOString().slice(0, 10);
+
+/** Quotas reset at the start of each month, UTC. */
+export const startOfMonth = (now = new Date()) =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+export function periodStart(period: UsagePeriod, now = new Date()): Date {
+  if (period === "month") return startOfMonth(now);
+
+  const days = period === "30d" ? 30 : 90;
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - days + 1));
+}
+
+export function totalUsage(rows: UsageRow[]): UsageTotals {
+  const calls = rows.reduce((sum, row) => sum + row.calls, 0);
+  const latency = rows.reduce((sum, row) => sum + row.total_latency_ms, 0);
+
+  return {
+    calls,
+    promptTokens: rows.reduce((sum, row) => sum + row.prompt_tokens, 0),
+    completionTokens: rows.reduce((sum, row) => sum + row.completion_tokens, 0),
+    cost: rows.reduce((sum, row) => sum + Number(row.cost_usd ?? 0), 0),
+    averageLatencyMs: calls > 0 ? latency / calls : 0,
+  };
+}
+
+/** Tokens per day from `since` to today, including days without usage. */
+export function dailyUsage(rows: UsageRow[], since: Date, now = new Date()): DailyUsage[] {
+  const days = new Map<string, DailyUsage>();
+  for (let date = new Date(since); toDay(date) <= toDay(now); date.setUTCDate(date.getUTCDate() + 1)) {
+    const day = toDay(date);
+    days.set(day, { day, prompt: 0, completion: 0 });
+  }
+
+  for (const row of rows) {
+    const entry = days.get(row.day);
+    if (!entry) continue;
+    entry.prompt += row.prompt_tokens;
+    entry.completion += row.completion_tokens;
+  }
+
+  return [...days.values()];
+}
+
+/** Totals per model or project, the largest token count first. */
+export function usageBy(rows: UsageRow[], key: "model" | "project_id"): [string | null, UsageTotals][] {
+  const groups = new Map<string | null, UsageRow[]>();
+  for (const row of rows) {
+    groups.set(row[key], [...(groups.get(row[key]) ?? []), row]);
+  }
+
+  const tokens = (totals: UsageTotals) => totals.promptTokens + totals.completionTokens;
+  return [...groups.entries()]
+    .map(([group, groupRows]): [string | null, UsageTotals] => [group, totalUsage(groupRows)])
+    .sort(([, a], [, b]) => tokens(b) - tokens(a));
+}
+
+export const formatTokens = (tokens: number) =>
+  new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 1 }).format(tokens);
+
+export const formatCost = (cost: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: cost > 0 && cost < 1 ? 4 : 2,
+  }).format(cost);
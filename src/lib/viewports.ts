@@ -0,0 +1,32 @@
+import { MOBILE_BREAKPOINT } from "@/hooks/use-mobile";
+
+export type ViewportMode = "responsive" | "phone" | "tablet" | "desktop" | "custom";
+
+export interface Viewport {
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const VIEWPORT_PRESETS: Record<"phone" | "tablet" | "desktop", Viewport> = {
+  phone: { label: "Phone", width: 390, height: 844 },
+  tablet: { label: "Tablet", width: 820, height: 1180 },
+  desktop: { label: "Desktop", width: 1440, height: 900 },
+};
+
+export const MIN_VIEWPORT_SIZE = 200;
+export const MAX_VIEWPORT_SIZE = 3840;
+
+export const ZOOM_LEVELS = [0.5, 0.75, 1, 1.25];
+
+/** Whether a page at this width gets the same mobile layout as the app itself. */
+export const isMobileWidth = (width: number) => width < MOBILE_BREAKPOINT;
+
+export const rotate = (viewport: Viewport): Viewport => ({
+  ...viewport,
+  width: viewport.height,
+  height: viewport.width,
+});
+
+export const clampViewportSize = (size: number) =>
+  Math.min(Math.max(Math.round(size) || MIN_VIEWPORT_SIZE, MIN_VIEWPORT_SIZE), MAX_VIEWPORT_SIZE);
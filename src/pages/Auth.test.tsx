@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { MemoryRouter, Route, Routes } from "react-router-dom";
+import { AuthProvider } from "@/components/AuthProvider";
+import { Toaster } from "@/components/ui/toaster";
+import { gotrue } from "@/test/gotrue";
+import Auth from "./Auth";
+
+const renderAuth = (from?: string) =>
+  render(
+    <AuthProvider>
+      <Toaster />
+      <MemoryRouter initialEntries={[{ pathname: "/auth", state: from ? { from: { pathname: from } } : null }]}>
+        <Routes>
+          <Route path="/auth" element={<Auth />} />
+          <Route path="/" element={<p>Dashboard</p>} />
+          <Route path="/projects/:id" element={<p>Project editor</p>} />
+        </Routes>
+      </MemoryRouter>
+    </AuthProvider>
+  );
+
+const fill = (label: string, value: string) => fireEvent.change(screen.getByLabelText(label), { target: { value } });
+
+describe("Auth", () => {
+  it("signs in and returns to the page that asked for it", async () => {
+    gotrue.addUser("ada@example.com", "correct horse");
+    renderAuth("/projects/42");
+
+    fill("Email", "ada@example.com");
+    fill("Password", "correct horse");
+    fireEvent.click(await screen.findByRole("button", { name: "Sign In" }));
+
+    expect(await screen.findByText("Project editor")).toBeInTheDocument();
+    expect(gotrue.lastRequest("/token")?.query.get("grant_type")).toBe("password");
+  });
+
+  it("goes to the dashboard after signing in directly", async () => {
+    gotrue.addUser("ada@example.com", "correct horse");
+    renderAuth();
+
+    fill("Email", "ada@example.com");
+    fill("Password", "correct horse");
+    fireEvent.click(await screen.findByRole("button", { name: "Sign In" }));
+
+    expect(await screen.findByText("Dashboard")).toBeInTheDocument();
+  });
+
+  it("shows the error and stays put when the password is wrong", async () => {
+    gotrue.addUser("ada@example.com", "correct horse");
+    renderAuth("/projects/42");
+
+    fill("Email", "ada@example.com");
+    fill("Password", "battery staple");
+    fireEvent.click(await screen.findByRole("button", { name: "Sign In" }));
+
+    expect(await screen.findByText("Authentication failed")).toBeInTheDocument();
+    expect(screen.getByText("Invalid login credentials")).toBeInTheDocument();
+    expect(screen.queryByText("Project editor")).not.toBeInTheDocument();
+  });
+
+  it("signs up with the full name and asks for email confirmation", async () => {
+    renderAuth();
+
+    fireEvent.mouseDown(await screen.findByRole("tab", { name: "Sign Up" }));
+    fill("Full name", "Ada Lovelace");
+    fill("Email", "ada@example.com");
+    fill("Password", "correct horse");
+    fireEvent.click(screen.getByRole("button", { name: "Create Account" }));
+
+    expect(await screen.findByText("Check your email")).toBeInTheDocument();
+    const request = gotrue.lastRequest("/signup");
+    expect(request?.body).toMatchObject({
+      email: "ada@example.com",
+      password: "correct horse",
+      data: { full_name: "Ada Lovelace" },
+    });
+    expect(request?.query.get("redirect_to")).toBe(`${window.location.origin}/`);
+
+    // No session until the email is confirmed
+    expect(screen.getByRole("button", { name: "Create Account" })).toBeInTheDocument();
+    expect(screen.queryByText("Dashboard")).not.toBeInTheDocument();
+  });
+
+  it("sends a reset link that points at the reset page", async () => {
+    renderAuth();
+
+    fireEvent.click(await screen.findByRole("button", { name: "Forgot password?" }));
+    fill("Email", "ada@example.com");
+    fireEvent.click(screen.getByRole("button", { name: "Send Reset Link" }));
+
+    expect(await screen.findByText("Reset link sent")).toBeInTheDocument();
+    const request = gotrue.lastRequest("/recover");
+    expect(request?.body).toMatchObject({ email: "ada@example.com" });
+    expect(request?.query.get("redirect_to")).toBe(`${window.location.origin}/reset-password`);
+
+    // Back on the sign in form
+    expect(screen.getByRole("button", { name: "Sign In" })).toBeInTheDocument();
+  });
+});
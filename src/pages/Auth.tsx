@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2 } from "lucide-react";
+
+type AuthView = "sign-in" | "sign-up" | "forgot";
+
+const Auth = () => {
+  const { session, loading: authLoading, signIn, signUp, sendPasswordReset } = useAuth();
+  const { toast } = useToast();
+  const location = useLocation();
+
+  const [view, setView] = useState<AuthView>("sign-in");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [fullName, setFullName] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const from = (location.state as { from?: { pathname: string } } | null)?.from?.pathname || "/";
+
+  if (!authLoading && session) {
+    return <Navigate to={from} replace />;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      if (view === "sign-in") {
+        await signIn(email, password);
+      } else if (view === "sign-up") {
+        await signUp(email, password, fullName);
+        toast({
+          title: "Check your email",
+          description: "We sent you a confirmation link to finish signing up.",
+        });
+      } else {
+        await sendPasswordReset(email);
+        toast({
+          title: "Reset link sent",
+          description: `If an account exists for ${email}, a reset link is on its way.`,
+        });
+        setView("sign-in");
+      }
+    } catch (error) {
+      toast({
+        title: "Authentication failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background via-background to-secondary px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-2xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+            AI Dev Workspace
+          </CardTitle>
+          <CardDescription>
+            {view === "forgot"
+              ? "Enter your email and we'll send you a reset link"
+              : "Sign in to manage your AI-powered projects"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {view !== "forgot" && (
+            <Tabs value={view} onValueChange={(v) => setView(v as AuthView)} className="mb-6">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="sign-in">Sign In</TabsTrigger>
+                <TabsTrigger value="sign-up">Sign Up</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {view === "sign-up" && (
+              <div className="space-y-2">
+                <Label htmlFor="full-name">Full name</Label>
+                <Input
+                  id="full-name"
+                  value={fullName}
+                  onChange={(e) => setFullName(e.target.value)}
+                  autoComplete="name"
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                autoComplete="email"
+                required
+              />
+            </div>
+
+            {view !== "forgot" && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="password">Password</Label>
+                  {view === "sign-in" && (
+                    <button
+                      type="button"
+                      className="text-xs text-muted-foreground underline"
+                      onClick={() => setView("forgot")}
+                    >
+                      Forgot password?
+                    </button>
+                  )}
+                </div>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete={view === "sign-up" ? "new-password" : "current-password"}
+                  minLength={6}
+                  required
+                />
+              </div>
+            )}
+
+            <Button type="submit" className="w-full" disabled={loading}>
+              {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {view === "sign-in" && "Sign In"}
+              {view === "sign-up" && "Create Account"}
+              {view === "forgot" && "Send Reset Link"}
+            </Button>
+
+            {view === "forgot" && (
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full"
+                onClick={() => setView("sign-in")}
+              >
+                Back to sign in
+              </Button>
+            )}
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Auth;
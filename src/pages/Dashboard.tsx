@@ -1,7 +1,28 @@
+import { useNavigate } from "react-router-dom";
 import ProjectList from "@/components/ProjectList";
 import CreateProjectDialog from "@/components/CreateProjectDialog";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { BarChart3, LogOut } from "lucide-react";
 
 const Dashboard = () => {
+  const { user, signOut } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (error) {
+      toast({
+        title: "Error signing out",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-secondary">
       <header className="border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
@@ -9,6 +30,17 @@ const Dashboard = () => {
           <h1 className="text-2xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
             AI Dev Workspace
           </h1>
+          <div className="flex items-center gap-4">
+            <span className="text-sm text-muted-foreground">{user?.email}</span>
+            <Button variant="outline" size="sm" onClick={() => navigate("/usage")}>
+              <BarChart3 className="h-4 w-4 mr-2" />
+              Usage
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleSignOut}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Sign Out
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -23,10 +55,10 @@ const Dashboard = () => {
           <CreateProjectDialog />
         </div>
 
-        <ProjectList userId="anonymous" />
+        {user && <ProjectList userId={user.id} />}
       </main>
     </div>
   );
 };
 
-export default Dashboard;
\ No newline at end of file
+export default Dashboard;
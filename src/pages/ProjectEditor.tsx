@@ -1,14 +1,24 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, Code2, MessageSquare, Save, Settings } from "lucide-react";
+import { ArrowLeft, Code2, FileDiff, MessageSquare, Save, Settings, X } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Textarea } from "@/components/ui/textarea";
-import AIChat, { FileAction } from "@/components/AIChat";
+import AIChat, { QueuedPrompt } from "@/components/AIChat";
+import { FileAction, applyPatchAction } from "@/lib/file-actions";
+import { DiffHunk, applyHunks, computeHunks } from "@/lib/file-diff";
+import { filesUnder, findPathConflict, languageFromPath } from "@/lib/file-tree";
 import CodePreview from "@/components/CodePreview";
-import { ScrollArea } from "@/components/ui/scroll-area";
+import CodeEditor, { EditorLocation } from "@/components/CodeEditor";
+import DiffReview, { PendingChange } from "@/components/DiffReview";
+import FileHistory from "@/components/FileHistory";
+import CheckpointPanel from "@/components/CheckpointPanel";
+import PreviewConsole, { PreviewLogEntry } from "@/components/PreviewConsole";
+import type { PreviewEvent, SourceLocation } from "@/lib/preview";
+import { buildFixPrompt } from "@/lib/error-repair";
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
 
 interface Project {
   id: string;
@@ -26,6 +36,22 @@ interface FileItem {
   updated_at: string;
 }
 
+const MAX_PREVIEW_LOGS = 500;
+// How long a reloaded preview must run without errors to count as fixed
+const REPAIR_SETTLE_MS = 4000;
+
+interface RepairState {
+  attempts: number;
+  // Prompt id of the fix turn in flight
+  promptId: string | null;
+  // Fix applied; waiting for the preview to reload and stay clean
+  verifying: boolean;
+  awaitingReload: boolean;
+  timer?: number;
+}
+
+const IDLE_REPAIR: RepairState = { attempts: 0, promptId: null, verifying: false, awaitingReload: false };
+
 const ProjectEditor = () => {
   const { projectId } = useParams<{ projectId: string }>();
   const navigate = useNavigate();
@@ -34,8 +60,25 @@ const ProjectEditor = () => {
   const [project, setProject] = useState<Project | null>(null);
   const [files, setFiles] = useState<FileItem[]>([]);
   const [selectedFile, setSelectedFile] = useState<FileItem | null>(null);
+  const [openFileIds, setOpenFileIds] = useState<string[]>([]);
+  // Unsaved editor content by file id
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(true);
-  const [activeView, setActiveView] = useState<"chat" | "code">("chat");
+  const [activeView, setActiveView] = useState<"chat" | "code" | "review">("chat");
+  const [pendingChanges, setPendingChanges] = useState<PendingChange[]>([]);
+  // Mirrors pendingChanges so back-to-back proposals within one AI turn see each other
+  const pendingChangesRef = useRef<PendingChange[]>([]);
+  // AI turns that already have an automatic checkpoint
+  const checkpointedTurnsRef = useRef<Set<string>>(new Set());
+  const [previewLogs, setPreviewLogs] = useState<PreviewLogEntry[]>([]);
+  const [consoleOpen, setConsoleOpen] = useState(false);
+  const [editorLocation, setEditorLocation] = useState<(EditorLocation & { fileId: string }) | null>(null);
+  const nextLogIdRef = useRef(0);
+  const [queuedPrompt, setQueuedPrompt] = useState<QueuedPrompt | null>(null);
+  const [autoRepair, setAutoRepair] = useState(false);
+  const [maxRepairAttempts, setMaxRepairAttempts] = useState(3);
+  const [repairStatus, setRepairStatus] = useState<string | null>(null);
+  const repairRef = useRef<RepairState>({ ...IDLE_REPAIR });
 
   useEffect(() => {
     if (!projectId) {
@@ -73,6 +116,22 @@ const ProjectEditor = () => {
     };
   }, [projectId, navigate]);
 
+  useEffect(() => {
+    return () => window.clearTimeout(repairRef.current.timer);
+  }, []);
+
+  const selectedFileId = selectedFile?.id;
+  useEffect(() => {
+    if (!selectedFileId) return;
+    setOpenFileIds(prev => (prev.includes(selectedFileId) ? prev : [...prev, selectedFileId]));
+  }, [selectedFileId]);
+
+  // Drop tabs whose files were deleted or restored away
+  useEffect(() => {
+    if (loading) return;
+    setOpenFileIds(prev => prev.filter(id => files.some(f => f.id === id)));
+  }, [files, loading]);
+
   const loadProject = async () => {
     try {
       const { data, error } = await supabase
@@ -113,11 +172,11 @@ const ProjectEditor = () => {
 
       if (error) throw error;
       setFiles(data || []);
-      
-      // If no file selected but files exist, select the first one
-      if (!selectedFile && data && data.length > 0) {
-        setSelectedFile(data[0]);
-      }
+
+      // Keep the selected file, with its latest content, or fall back to the
+      // first one. This also runs from the realtime subscription, whose
+      // closure would only ever see the first render's selection.
+      setSelectedFile(prev => (prev && data?.find(f => f.id === prev.id)) ?? data?.[0] ?? null);
     } catch (error: any) {
       toast({
         title: "Error loading files",
@@ -129,72 +188,242 @@ const ProjectEditor = () => {
     }
   };
 
-  const handleFileAction = async (action: FileAction) => {
+  const updatePendingChanges = (next: PendingChange[]) => {
+    pendingChangesRef.current = next;
+    setPendingChanges(next);
+  };
+
+  const fetchFileByPath = async (path: string) => {
+    const { data, error } = await supabase
+      .from("files")
+      .select("*")
+      .eq("project_id", projectId)
+      .eq("path", path)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  };
+
+  // AI actions are staged for review here; nothing is written to `files`
+  // until the change is accepted in DiffReview. Resolves with what the action
+  // itself changes, and throws when it does not fit the project.
+  const handleFileAction = async (action: FileAction, messageId?: string): Promise<DiffHunk[]> => {
+    const pending = pendingChangesRef.current;
+
+    // Staged changes are applied one by one against the stored files, so
+    // nothing may build on a rename that is not accepted yet
+    const touched = action.type === "rename" ? [action.path, action.newPath] : [action.path];
+    for (const rename of pending.filter(c => c.kind === "rename")) {
+      if (touched.includes(rename.path)) {
+        throw new Error(`${rename.path} is being renamed to ${rename.newPath}; review that change first`);
+      }
+      if (touched.includes(rename.newPath)) {
+        throw new Error(`${rename.newPath} is the new name of ${rename.path}; review that rename first`);
+      }
+    }
+
+    const existing = pending.find(c => c.path === action.path);
+    const stored = existing ? null : await fetchFileByPath(action.path);
+
+    if (action.type === "rename") {
+      if (existing) {
+        throw new Error(`Review the pending changes to ${action.path} before renaming it`);
+      }
+      if (!stored) throw new Error(`${action.path} does not exist`);
+
+      updatePendingChanges([
+        ...pending,
+        {
+          id: crypto.randomUUID(),
+          kind: "rename",
+          path: action.path,
+          newPath: action.newPath,
+          language: stored.language,
+          oldContent: null,
+          newContent: null,
+          hunks: [],
+          messageId,
+        },
+      ]);
+      return [];
+    }
+
+    // null means the file does not exist (yet, or any more)
+    const oldContent = existing ? existing.oldContent : stored ? stored.content ?? "" : null;
+    const currentContent = existing ? existing.newContent : stored ? stored.content ?? "" : null;
+    let language = existing?.language ?? stored?.language ?? "plaintext";
+    let newContent: string | null;
+
+    if (action.type === "create") {
+      newContent = action.content;
+      language = action.language;
+    } else {
+      if (currentContent === null) throw new Error(`${action.path} does not exist`);
+
+      if (action.type === "edit") {
+        newContent = action.content;
+        language = action.language ?? language;
+      } else if (action.type === "patch") {
+        newContent = applyPatchAction(currentContent, action);
+      } else {
+        newContent = null;
+      }
+    }
+
+    const hunks = computeHunks(currentContent ?? "", newContent ?? "");
+    const others = pending.filter(c => c !== existing);
+    if (oldContent === null && newContent === null) {
+      // Deleting a file that was only ever proposed
+      updatePendingChanges(others);
+      return hunks;
+    }
+
+    const change: PendingChange = {
+      id: existing?.id ?? crypto.randomUUID(),
+      kind: oldContent === null ? "create" : newContent === null ? "delete" : "edit",
+      path: action.path,
+      language,
+      oldContent,
+      newContent,
+      hunks: computeHunks(oldContent ?? "", newContent ?? ""),
+      messageId,
+    };
+
+    updatePendingChanges(
+      existing ? pending.map(c => (c === existing ? change : c)) : [...others, change]
+    );
+    return hunks;
+  };
+
+  const ensureTurnCheckpoint = async (messageId: string | undefined) => {
+    if (!messageId || checkpointedTurnsRef.current.has(messageId)) return;
+
+    const { error } = await supabase.rpc("create_checkpoint", {
+      _project_id: projectId,
+      _name: "Before AI changes",
+      _kind: "auto",
+      _message_id: messageId,
+    });
+
+    if (error) throw error;
+    checkpointedTurnsRef.current.add(messageId);
+  };
+
+  // Resolves with whether the change was applied; failures are shown in a toast
+  const handleApplyChange = async (change: PendingChange, acceptedHunks: Set<number>) => {
     try {
-      if (action.type === "create") {
-        // Check if file already exists
-        const existingFile = files.find(f => f.path === action.path);
-        
-        if (existingFile) {
-          // Update existing file
-          const { error } = await supabase
-            .from("files")
-            .update({ content: action.content, language: action.language })
-            .eq("id", existingFile.id);
+      await ensureTurnCheckpoint(change.messageId);
 
-          if (error) throw error;
-          
-          setSelectedFile({ ...existingFile, content: action.content, language: action.language });
-        } else {
-          // Create new file
+      if (change.kind === "rename") {
+        const { data, error } = await supabase
+          .from("files")
+          .update({ path: change.newPath })
+          .eq("project_id", projectId)
+          .eq("path", change.path)
+          .select()
+          .maybeSingle();
+
+        if (error) throw error;
+        if (!data) throw new Error(`${change.path} does not exist`);
+        if (selectedFile?.path === change.path) setSelectedFile(data);
+      } else {
+        const stored = await fetchFileByPath(change.path);
+        if ((stored ? stored.content ?? "" : null) !== change.oldContent) {
+          throw new Error(`${change.path} changed since this proposal was made`);
+        }
+
+        if (change.kind === "create") {
           const { data, error } = await supabase
             .from("files")
             .insert({
               project_id: projectId,
-              path: action.path,
-              language: action.language,
-              content: action.content,
+              path: change.path,
+              language: change.language,
+              content: change.newContent,
+              last_author: "ai",
+              last_message_id: change.messageId ?? null,
             })
             .select()
             .single();
 
           if (error) throw error;
           setSelectedFile(data);
-        }
-      } else if (action.type === "edit" && selectedFile) {
-        const { error } = await supabase
-          .from("files")
-          .update({ content: action.content })
-          .eq("id", selectedFile.id);
+        } else if (change.kind === "edit") {
+          const content =
+            acceptedHunks.size === change.hunks.length
+              ? change.newContent
+              : applyHunks(change.oldContent, change.hunks, acceptedHunks);
 
-        if (error) throw error;
-        setSelectedFile({ ...selectedFile, content: action.content });
+          const { data, error } = await supabase
+            .from("files")
+            .update({
+              content,
+              language: change.language,
+              last_author: "ai",
+              last_message_id: change.messageId ?? null,
+            })
+            .eq("id", stored.id)
+            .select()
+            .single();
+
+          if (error) throw error;
+          setSelectedFile(data);
+        } else {
+          const { error } = await supabase.from("files").delete().eq("id", stored.id);
+
+          if (error) throw error;
+          if (selectedFile?.id === stored.id) setSelectedFile(null);
+        }
       }
-      
+
+      updatePendingChanges(pendingChangesRef.current.filter(c => c.id !== change.id));
       await loadFiles();
+      return true;
     } catch (error: any) {
       toast({
-        title: "Error updating file",
+        title: "Error applying change",
         description: error.message,
         variant: "destructive",
       });
+      return false;
     }
   };
 
+  const handleRejectChange = (change: PendingChange) => {
+    updatePendingChanges(pendingChangesRef.current.filter(c => c.id !== change.id));
+  };
+
+  const activeFile = files.find(f => f.id === selectedFile?.id) ?? selectedFile;
+
+  const isDirty = (file: FileItem) =>
+    drafts[file.id] !== undefined && drafts[file.id] !== (file.content || "");
+
   const handleSaveFile = async () => {
-    if (!selectedFile) return;
+    if (!activeFile) return;
+
+    const content = drafts[activeFile.id] ?? activeFile.content;
 
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from("files")
-        .update({ content: selectedFile.content })
-        .eq("id", selectedFile.id);
+        .update({ content, last_author: "user", last_message_id: null })
+        .eq("id", activeFile.id)
+        .select()
+        .single();
 
       if (error) throw error;
 
+      setSelectedFile(data);
+      setFiles(prev => prev.map(f => (f.id === data.id ? data : f)));
+      setDrafts(prev => {
+        const { [activeFile.id]: _saved, ...rest } = prev;
+        return rest;
+      });
+
       toast({
         title: "File saved",
-        description: `Saved ${selectedFile.path}`,
+        description: `Saved ${activeFile.path}`,
       });
     } catch (error: any) {
       toast({
@@ -205,6 +434,312 @@ const ProjectEditor = () => {
     }
   };
 
+  const handleCloseTab = (file: FileItem) => {
+    if (isDirty(file) && !window.confirm(`Discard unsaved changes to ${file.path}?`)) return;
+
+    const remaining = openFileIds.filter(id => id !== file.id);
+    setOpenFileIds(remaining);
+    setDrafts(prev => {
+      const { [file.id]: _discarded, ...rest } = prev;
+      return rest;
+    });
+
+    if (selectedFile?.id === file.id) {
+      const next = files.find(f => f.id === remaining[remaining.length - 1]);
+      setSelectedFile(next ?? null);
+    }
+  };
+
+  // 23505 is a violation of the (project_id, path) unique constraint
+  const describeWriteError = (error: { code?: string; message: string }, path: string) =>
+    error.code === "23505" ? new Error(`${path} already exists`) : error;
+
+  const handleCreateFile = async (path: string) => {
+    try {
+      const conflict = findPathConflict(files.map(f => f.path), path);
+      if (conflict) throw new Error(`${conflict} already exists`);
+
+      const { data, error } = await supabase
+        .from("files")
+        .insert({
+          project_id: projectId,
+          path,
+          language: languageFromPath(path),
+          content: "",
+          last_author: "user",
+          last_message_id: null,
+        })
+        .select()
+        .single();
+
+      if (error) throw describeWriteError(error, path);
+
+      if (!path.endsWith("/.gitkeep")) setSelectedFile(data);
+      await loadFiles();
+    } catch (error) {
+      toast({
+        title: "Error creating file",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Renames a file, or moves every file below a folder to the new prefix
+  const handleMovePath = async (from: string, to: string, isFolder: boolean) => {
+    try {
+      if (isFolder && (to === from || to.startsWith(`${from}/`))) {
+        throw new Error("A folder cannot be moved into itself");
+      }
+
+      const moving = filesUnder(files, from).filter(f => isFolder || f.path === from);
+      const movingIds = new Set(moving.map(f => f.id));
+      const remaining = files.filter(f => !movingIds.has(f.id)).map(f => f.path);
+      const targets = moving.map(f => ({ file: f, path: to + f.path.slice(from.length) }));
+
+      for (const { path } of targets) {
+        const conflict = findPathConflict(remaining, path);
+        if (conflict) throw new Error(`${conflict} already exists`);
+      }
+
+      for (const { file, path } of targets) {
+        const extensionChanged = path.split(".").pop() !== file.path.split(".").pop();
+        const { data, error } = await supabase
+          .from("files")
+          .update({
+            path,
+            ...(extensionChanged ? { language: languageFromPath(path) } : {}),
+          })
+          .eq("id", file.id)
+          .select()
+          .single();
+
+        if (error) throw describeWriteError(error, path);
+        if (selectedFile?.id === data.id) setSelectedFile(data);
+      }
+
+      await loadFiles();
+    } catch (error) {
+      toast({
+        title: "Error moving file",
+        description: error.message,
+        variant: "destructive",
+      });
+      await loadFiles();
+    }
+  };
+
+  const handleDeletePath = async (path: string, isFolder: boolean) => {
+    const ids = filesUnder(files, path)
+      .filter(f => isFolder || f.path === path)
+      .map(f => f.id);
+
+    try {
+      const { error } = await supabase.from("files").delete().in("id", ids);
+
+      if (error) throw error;
+
+      if (selectedFile && ids.includes(selectedFile.id)) setSelectedFile(null);
+      setDrafts(prev =>
+        Object.fromEntries(Object.entries(prev).filter(([id]) => !ids.includes(id)))
+      );
+      await loadFiles();
+
+      toast({
+        title: isFolder ? "Folder deleted" : "File deleted",
+        description: `Deleted ${path}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error deleting file",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePreviewEvent = (event: PreviewEvent, location?: SourceLocation) => {
+    const entry = { id: nextLogIdRef.current++, timestamp: Date.now(), event, location };
+    // Keep the most recent entries so a logging loop can't exhaust memory
+    setPreviewLogs(prev => [...prev.slice(-(MAX_PREVIEW_LOGS - 1)), entry]);
+    if (event.type === "error") {
+      setConsoleOpen(true);
+      if (autoRepair) handleRepairError(entry);
+    }
+  };
+
+  const handlePreviewReload = () => {
+    setPreviewLogs([]);
+
+    const repair = repairRef.current;
+    if (!repair.verifying) return;
+
+    // Every reload restarts the clean-run countdown
+    repair.awaitingReload = false;
+    window.clearTimeout(repair.timer);
+    repair.timer = window.setTimeout(
+      () => finishRepair("Preview loads cleanly", `Fixed after ${repair.attempts} attempt(s)`),
+      REPAIR_SETTLE_MS
+    );
+  };
+
+  const requestFix = (entry: PreviewLogEntry) => {
+    const prompt = {
+      id: crypto.randomUUID(),
+      content: buildFixPrompt(entry.event, entry.location, files),
+    };
+    setQueuedPrompt(prompt);
+    setActiveView("chat");
+    return prompt.id;
+  };
+
+  const finishRepair = (title: string, description: string, failed = false) => {
+    window.clearTimeout(repairRef.current.timer);
+    repairRef.current = { ...IDLE_REPAIR };
+    setRepairStatus(null);
+    toast({ title, description, variant: failed ? "destructive" : "default" });
+  };
+
+  const handleRepairError = (entry: PreviewLogEntry) => {
+    const repair = repairRef.current;
+    // A fix is already in flight, or this error is from the page being replaced
+    if (repair.promptId || repair.awaitingReload) return;
+
+    window.clearTimeout(repair.timer);
+    repair.verifying = false;
+
+    if (repair.attempts >= maxRepairAttempts) {
+      setAutoRepair(false);
+      finishRepair(
+        "Auto-fix stopped",
+        `The preview still fails after ${repair.attempts} attempt(s)`,
+        true
+      );
+      return;
+    }
+
+    repair.attempts += 1;
+    repair.promptId = requestFix(entry);
+    setRepairStatus(`Fixing, attempt ${repair.attempts} of ${maxRepairAttempts}`);
+  };
+
+  const handleQueuedPromptDone = async (promptId: string, messageId: string | null) => {
+    setQueuedPrompt(prev => (prev?.id === promptId ? null : prev));
+
+    const repair = repairRef.current;
+    if (repair.promptId !== promptId) return;
+
+    const changes = pendingChangesRef.current.filter(c => messageId && c.messageId === messageId);
+    if (changes.length === 0) {
+      finishRepair("Auto-fix stopped", "The assistant did not propose a fix", true);
+      return;
+    }
+
+    // Auto-fix applies the proposal without review; a checkpoint is taken first
+    setRepairStatus("Applying fix");
+    for (const change of changes) {
+      // Nothing would reload the preview, so the check below would never end
+      if (!(await handleApplyChange(change, new Set(change.hunks.map((_, i) => i))))) {
+        finishRepair("Auto-fix stopped", `The fix for ${change.path} could not be applied`, true);
+        return;
+      }
+    }
+
+    repair.promptId = null;
+    repair.verifying = true;
+    repair.awaitingReload = true;
+    setRepairStatus("Checking the preview");
+  };
+
+  const handleAutoRepairChange = (enabled: boolean) => {
+    setAutoRepair(enabled);
+    if (!enabled) {
+      window.clearTimeout(repairRef.current.timer);
+      repairRef.current = { ...IDLE_REPAIR };
+      setRepairStatus(null);
+    }
+  };
+
+  const handleOpenLocation = (location: SourceLocation) => {
+    const file = files.find(f => f.path === location.path);
+    if (!file) return;
+
+    setSelectedFile(file);
+    setActiveView("code");
+    setEditorLocation({ fileId: file.id, line: location.line, column: location.column });
+  };
+
+  const handleCheckpointRestored = async () => {
+    setSelectedFile(null);
+    await loadFiles();
+  };
+
+  // Puts the files back as they were before the assistant's latest applied
+  // changes. The current files are checkpointed first so the undo can itself
+  // be undone, and the restored checkpoint is removed so the next undo goes
+  // one turn further back.
+  const handleUndoLastTurn = async () => {
+    const { data: checkpoint, error } = await supabase
+      .from("checkpoints")
+      .select("id, message_id")
+      .eq("project_id", projectId)
+      .eq("kind", "auto")
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!checkpoint) throw new Error("The assistant has not changed any files yet");
+
+    const { error: saveError } = await supabase.rpc("create_checkpoint", {
+      _project_id: projectId,
+      _name: "Before undo",
+    });
+    if (saveError) throw saveError;
+
+    const { error: restoreError } = await supabase.rpc("restore_checkpoint", {
+      _checkpoint_id: checkpoint.id,
+    });
+    if (restoreError) throw restoreError;
+
+    const { error: deleteError } = await supabase.from("checkpoints").delete().eq("id", checkpoint.id);
+    if (deleteError) throw deleteError;
+    if (checkpoint.message_id) checkpointedTurnsRef.current.delete(checkpoint.message_id);
+
+    await handleCheckpointRestored();
+  };
+
+  const handleRestoreRevision = async (content: string) => {
+    if (!selectedFile) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("files")
+        .update({ content, last_author: "user", last_message_id: null })
+        .eq("id", selectedFile.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      setSelectedFile(data);
+      setDrafts(prev => {
+        const { [data.id]: _discarded, ...rest } = prev;
+        return rest;
+      });
+
+      toast({
+        title: "Revision restored",
+        description: `Restored ${selectedFile.path}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error restoring revision",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -232,7 +767,7 @@ const ProjectEditor = () => {
           </div>
 
           <div className="flex items-center gap-4">
-            <Tabs value={activeView} onValueChange={(v) => setActiveView(v as "chat" | "code")}>
+            <Tabs value={activeView} onValueChange={(v) => setActiveView(v as "chat" | "code" | "review")}>
               <TabsList>
                 <TabsTrigger value="chat" className="flex items-center gap-2">
                   <MessageSquare className="h-4 w-4" />
@@ -242,8 +777,20 @@ const ProjectEditor = () => {
                   <Code2 className="h-4 w-4" />
                   Code Editor
                 </TabsTrigger>
+                <TabsTrigger value="review" className="flex items-center gap-2">
+                  <FileDiff className="h-4 w-4" />
+                  Review
+                  {pendingChanges.length > 0 && (
+                    <Badge className="h-5 px-1.5">{pendingChanges.length}</Badge>
+                  )}
+                </TabsTrigger>
               </TabsList>
             </Tabs>
+            <CheckpointPanel
+              projectId={projectId!}
+              files={files}
+              onRestored={handleCheckpointRestored}
+            />
             <Button
               variant="outline"
               size="icon"
@@ -259,38 +806,101 @@ const ProjectEditor = () => {
         <div className="w-full grid grid-cols-1 lg:grid-cols-2 h-full">
           {/* Left Panel - Chat or Code Editor */}
           <div className="border-r flex flex-col h-full">
-            {activeView === "chat" ? (
-              <AIChat projectId={projectId!} onFileAction={handleFileAction} />
-            ) : (
+            {/* Hidden rather than unmounted, so a streaming reply survives switching views */}
+            <div className={cn("h-full", activeView !== "chat" && "hidden")}>
+              <AIChat
+                projectId={projectId!}
+                selectedPath={activeFile?.path}
+                filePaths={files.map(f => f.path)}
+                onFileAction={handleFileAction}
+                onUndo={handleUndoLastTurn}
+                queuedPrompt={queuedPrompt}
+                onQueuedPromptDone={handleQueuedPromptDone}
+              />
+            </div>
+            {activeView === "review" && (
+              <DiffReview
+                changes={pendingChanges}
+                onApply={handleApplyChange}
+                onReject={handleRejectChange}
+              />
+            )}
+            {activeView === "code" && (
               <div className="flex flex-col h-full">
+                {openFileIds.length > 0 && (
+                  <div className="flex border-b overflow-x-auto">
+                    {openFileIds.map(id => {
+                      const file = files.find(f => f.id === id);
+                      if (!file) return null;
+
+                      return (
+                        <div
+                          key={id}
+                          className={cn(
+                            "group flex items-center gap-2 border-r px-3 py-2 text-sm font-mono cursor-pointer whitespace-nowrap",
+                            activeFile?.id === id ? "bg-background" : "bg-muted/50 text-muted-foreground hover:bg-muted"
+                          )}
+                          onClick={() => setSelectedFile(file)}
+                          title={file.path}
+                        >
+                          {file.path.split("/").pop()}
+                          {isDirty(file) && <span className="h-2 w-2 rounded-full bg-primary" />}
+                          <button
+                            type="button"
+                            className="opacity-50 hover:opacity-100"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleCloseTab(file);
+                            }}
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+
                 <div className="p-4 border-b flex items-center justify-between">
                   <div>
                     <h3 className="font-semibold">
-                      {selectedFile?.path || "No file selected"}
+                      {activeFile?.path || "No file selected"}
                     </h3>
-                    {selectedFile && (
+                    {activeFile && (
                       <p className="text-sm text-muted-foreground">
-                        {selectedFile.language}
+                        {activeFile.language}
+                        {isDirty(activeFile) && " • unsaved changes"}
                       </p>
                     )}
                   </div>
-                  {selectedFile && (
-                    <Button onClick={handleSaveFile} size="sm">
-                      <Save className="h-4 w-4 mr-2" />
-                      Save
-                    </Button>
+                  {activeFile && (
+                    <div className="flex items-center gap-2">
+                      <FileHistory
+                        fileId={activeFile.id}
+                        path={activeFile.path}
+                        currentContent={activeFile.content || ""}
+                        onRestore={handleRestoreRevision}
+                      />
+                      <Button onClick={handleSaveFile} size="sm" disabled={!isDirty(activeFile)}>
+                        <Save className="h-4 w-4 mr-2" />
+                        Save
+                      </Button>
+                    </div>
                   )}
                 </div>
 
-                <ScrollArea className="flex-1">
-                  {selectedFile ? (
-                    <Textarea
-                      value={selectedFile.content || ""}
-                      onChange={(e) =>
-                        setSelectedFile({ ...selectedFile, content: e.target.value })
+                <div className="flex-1 min-h-0">
+                  {activeFile ? (
+                    <CodeEditor
+                      docId={activeFile.id}
+                      path={activeFile.path}
+                      language={activeFile.language}
+                      value={drafts[activeFile.id] ?? (activeFile.content || "")}
+                      location={editorLocation?.fileId === activeFile.id ? editorLocation : undefined}
+                      onChange={(value) =>
+                        setDrafts(prev => ({ ...prev, [activeFile.id]: value }))
                       }
-                      placeholder="Start typing..."
-                      className="min-h-full font-mono text-sm border-0 rounded-none resize-none focus-visible:ring-0"
+                      onSave={handleSaveFile}
                     />
                   ) : (
                     <div className="flex items-center justify-center h-full text-muted-foreground">
@@ -300,17 +910,37 @@ const ProjectEditor = () => {
                       </div>
                     </div>
                   )}
-                </ScrollArea>
+                </div>
               </div>
             )}
           </div>
 
           {/* Right Panel - Preview */}
           <div className="flex flex-col h-full">
-            <CodePreview
-              files={files}
-              selectedFile={selectedFile}
-              onFileSelect={(file) => setSelectedFile(file)}
+            <div className="flex-1 min-h-0">
+              <CodePreview
+                files={files}
+                selectedFile={selectedFile}
+                onFileSelect={(file) => setSelectedFile(file)}
+                onCreateFile={handleCreateFile}
+                onMovePath={handleMovePath}
+                onDeletePath={handleDeletePath}
+                onPreviewEvent={handlePreviewEvent}
+                onPreviewReload={handlePreviewReload}
+              />
+            </div>
+            <PreviewConsole
+              entries={previewLogs}
+              open={consoleOpen}
+              onOpenChange={setConsoleOpen}
+              onClear={() => setPreviewLogs([])}
+              onOpenLocation={handleOpenLocation}
+              onFixError={requestFix}
+              autoRepair={autoRepair}
+              onAutoRepairChange={handleAutoRepairChange}
+              maxRepairAttempts={maxRepairAttempts}
+              onMaxRepairAttemptsChange={setMaxRepairAttempts}
+              repairStatus={repairStatus}
             />
           </div>
         </div>
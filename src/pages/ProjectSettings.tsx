@@ -3,11 +3,13 @@ import { useParams, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, Github, Database } from "lucide-react";
+import { ArrowLeft, Github, Database, Bot, BarChart3 } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import GitHubIntegration from "@/components/GitHubIntegration";
 import SupabaseIntegration from "@/components/SupabaseIntegration";
+import AISettings from "@/components/AISettings";
+import UsageDashboard from "@/components/UsageDashboard";
 
 interface Project {
   id: string;
@@ -96,7 +98,7 @@ const ProjectSettings = () => {
 
       <main className="container mx-auto px-4 py-8 max-w-4xl">
         <Tabs defaultValue="github" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="github" className="flex items-center gap-2">
               <Github className="h-4 w-4" />
               GitHub
@@ -105,6 +107,14 @@ const ProjectSettings = () => {
               <Database className="h-4 w-4" />
               Supabase
             </TabsTrigger>
+            <TabsTrigger value="ai" className="flex items-center gap-2">
+              <Bot className="h-4 w-4" />
+              AI
+            </TabsTrigger>
+            <TabsTrigger value="usage" className="flex items-center gap-2">
+              <BarChart3 className="h-4 w-4" />
+              Usage
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="github" className="space-y-4">
@@ -134,6 +144,24 @@ const ProjectSettings = () => {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="ai" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>AI Assistant</CardTitle>
+                <CardDescription>
+                  Choose the model and give the assistant instructions it follows in every chat
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AISettings projectId={projectId!} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="usage" className="space-y-4">
+            <UsageDashboard projectId={projectId!} />
+          </TabsContent>
         </Tabs>
       </main>
     </div>
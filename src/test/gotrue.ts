@@ -0,0 +1,138 @@
+/**
+ * An in-memory stand-in for the GoTrue endpoints the app calls, installed as
+ * the global fetch in setup.ts so the real supabase client runs against it.
+ * Sign-ups need email confirmation, like the hosted project.
+ */
+
+interface StandInUser {
+  id: string;
+  email: string;
+  password: string;
+  confirmed: boolean;
+  metadata: Record<string, unknown>;
+}
+
+interface GoTrueBody {
+  email?: string;
+  password?: string;
+  data?: Record<string, unknown>;
+}
+
+export interface GoTrueRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body: GoTrueBody | null;
+}
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+const authError = (status: number, errorCode: string, msg: string) =>
+  json(status, { code: status, error_code: errorCode, msg });
+
+const toUser = (user: StandInUser) => ({
+  id: user.id,
+  aud: "authenticated",
+  role: "authenticated",
+  email: user.email,
+  email_confirmed_at: user.confirmed ? new Date().toISOString() : null,
+  confirmation_sent_at: new Date().toISOString(),
+  app_metadata: { provider: "email", providers: ["email"] },
+  user_metadata: user.metadata,
+  identities: [],
+  created_at: new Date().toISOString(),
+  updated_at: new Date().toISOString(),
+});
+
+class GoTrueStandIn {
+  users = new Map<string, StandInUser>();
+  /** Every auth request made, oldest first */
+  requests: GoTrueRequest[] = [];
+  private sessions = new Map<string, string>();
+
+  reset() {
+    this.users.clear();
+    this.sessions.clear();
+    this.requests = [];
+  }
+
+  /** Adds a user who has already confirmed their email. */
+  addUser(email: string, password: string, metadata: Record<string, unknown> = {}) {
+    const user = { id: crypto.randomUUID(), email, password, confirmed: true, metadata };
+    this.users.set(email, user);
+    return user;
+  }
+
+  lastRequest(path: string) {
+    return this.requests.filter((request) => request.path === path).pop();
+  }
+
+  fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = new URL(input instanceof Request ? input.url : input.toString());
+    const method = (init?.method ?? "GET").toUpperCase();
+    const body: GoTrueBody | null = typeof init?.body === "string" ? JSON.parse(init.body) : null;
+    const path = url.pathname.replace(/^\/auth\/v1/, "");
+
+    if (!url.pathname.startsWith("/auth/v1/")) {
+      throw new Error(`No stand-in for ${method} ${url.pathname}`);
+    }
+    this.requests.push({ method, path, query: url.searchParams, body });
+
+    switch (`${method} ${path}`) {
+      case "POST /signup": {
+        if (this.users.has(body.email)) return json(200, toUser(this.users.get(body.email)!));
+        const user = {
+          id: crypto.randomUUID(),
+          email: body.email,
+          password: body.password,
+          confirmed: false,
+          metadata: body.data ?? {},
+        };
+        this.users.set(user.email, user);
+        return json(200, toUser(user));
+      }
+
+      case "POST /token": {
+        const user = this.users.get(body.email);
+        if (url.searchParams.get("grant_type") !== "password" || !user || user.password !== body.password) {
+          return authError(400, "invalid_credentials", "Invalid login credentials");
+        }
+        if (!user.confirmed) return authError(400, "email_not_confirmed", "Email not confirmed");
+
+        const accessToken = crypto.randomUUID();
+        this.sessions.set(accessToken, user.email);
+        return json(200, {
+          access_token: accessToken,
+          token_type: "bearer",
+          expires_in: 3600,
+          expires_at: Math.floor(Date.now() / 1000) + 3600,
+          refresh_token: crypto.randomUUID(),
+          user: toUser(user),
+        });
+      }
+
+      case "POST /recover":
+        // Answers the same whether or not the account exists
+        return json(200, {});
+
+      case "GET /user": {
+        const token = new Headers(init?.headers).get("Authorization")?.replace(/^Bearer /, "");
+        const email = token && this.sessions.get(token);
+        if (!email) return authError(401, "bad_jwt", "invalid JWT");
+        return json(200, toUser(this.users.get(email)!));
+      }
+
+      case "POST /logout":
+        return new Response(null, { status: 204 });
+
+      default:
+        throw new Error(`No stand-in for ${method} ${path}`);
+    }
+  };
+}
+
+export const gotrue = new GoTrueStandIn();
@@ -0,0 +1,14 @@
+import "@testing-library/jest-dom/vitest";
+import { afterEach, vi } from "vitest";
+import { cleanup } from "@testing-library/react";
+import { gotrue } from "./gotrue";
+
+// Installed before any test imports the supabase client, which keeps a
+// reference to the fetch it finds when it is created
+vi.stubGlobal("fetch", gotrue.fetch);
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+  gotrue.reset();
+});
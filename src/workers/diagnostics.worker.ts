@@ -0,0 +1,136 @@
+import ts from "typescript";
+import type { DiagnosticsRequest, DiagnosticsResponse, EditorDiagnostic } from "@/lib/diagnostics";
+
+const VOID_ELEMENTS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input",
+  "link", "meta", "param", "source", "track", "wbr",
+]);
+
+const SCRIPT_EXTENSIONS: Record<string, string> = {
+  javascript: "js",
+  typescript: "ts",
+  jsx: "jsx",
+  tsx: "tsx",
+};
+
+const checkScript = (code: string, language: string, path: string): EditorDiagnostic[] => {
+  const extension = path.match(/\.(m?[jt]sx?)$/)?.[1] ?? SCRIPT_EXTENSIONS[language] ?? "js";
+  const result = ts.transpileModule(code, {
+    fileName: `file.${extension}`,
+    reportDiagnostics: true,
+    compilerOptions: { jsx: ts.JsxEmit.Preserve, target: ts.ScriptTarget.ESNext },
+  });
+
+  return (result.diagnostics ?? []).map((diagnostic) => ({
+    from: diagnostic.start ?? 0,
+    to: (diagnostic.start ?? 0) + (diagnostic.length ?? 0),
+    severity: diagnostic.category === ts.DiagnosticCategory.Error ? "error" : "warning",
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"),
+  }));
+};
+
+const checkCss = (code: string): EditorDiagnostic[] => {
+  const diagnostics: EditorDiagnostic[] = [];
+  const open: number[] = [];
+
+  for (let i = 0; i < code.length; i++) {
+    const char = code[i];
+
+    if (char === "/" && code[i + 1] === "*") {
+      const end = code.indexOf("*/", i + 2);
+      if (end === -1) {
+        diagnostics.push({ from: i, to: code.length, severity: "error", message: "Unterminated comment" });
+        return diagnostics;
+      }
+      i = end + 1;
+    } else if (char === '"' || char === "'") {
+      const end = code.indexOf(char, i + 1);
+      const lineEnd = code.indexOf("\n", i + 1);
+      if (end === -1 || (lineEnd !== -1 && lineEnd < end)) {
+        diagnostics.push({ from: i, to: lineEnd === -1 ? code.length : lineEnd, severity: "error", message: "Unterminated string" });
+        if (lineEnd === -1) return diagnostics;
+        i = lineEnd;
+      } else {
+        i = end;
+      }
+    } else if (char === "{") {
+      open.push(i);
+    } else if (char === "}") {
+      if (open.length === 0) {
+        diagnostics.push({ from: i, to: i + 1, severity: "error", message: "Unexpected '}'" });
+      } else {
+        open.pop();
+      }
+    }
+  }
+
+  for (const position of open) {
+    diagnostics.push({ from: position, to: position + 1, severity: "error", message: "Unclosed '{'" });
+  }
+
+  return diagnostics;
+};
+
+const checkHtml = (code: string): EditorDiagnostic[] => {
+  const diagnostics: EditorDiagnostic[] = [];
+  const stack: { name: string; from: number; to: number }[] = [];
+  const reportUnclosed = ({ name, from, to }: (typeof stack)[number]) =>
+    diagnostics.push({ from, to, severity: "warning", message: `<${name}> is not closed` });
+  const tagPattern = /<!--[\s\S]*?(?:-->|$)|<(\/?)([a-zA-Z][\w-]*)(?:"[^"]*"|'[^']*'|[^'">])*?(\/?)>/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(code))) {
+    const [text, closing, rawName, selfClosing] = match;
+    if (!rawName) {
+      if (!text.endsWith("-->")) {
+        diagnostics.push({ from: match.index, to: code.length, severity: "error", message: "Unterminated comment" });
+      }
+      continue;
+    }
+
+    const name = rawName.toLowerCase();
+    const from = match.index;
+    const to = from + text.length;
+
+    if (closing) {
+      const openIndex = stack.map((tag) => tag.name).lastIndexOf(name);
+      if (openIndex === -1) {
+        diagnostics.push({ from, to, severity: "error", message: `Unexpected closing tag </${name}>` });
+        continue;
+      }
+      stack.splice(openIndex).slice(1).forEach(reportUnclosed);
+    } else if (!selfClosing && !VOID_ELEMENTS.has(name)) {
+      if (name === "script" || name === "style") {
+        // Skip raw text content up to the matching closing tag
+        const end = code.toLowerCase().indexOf(`</${name}`, to);
+        if (end === -1) {
+          diagnostics.push({ from, to, severity: "error", message: `<${name}> is not closed` });
+          break;
+        }
+        tagPattern.lastIndex = end;
+      }
+      stack.push({ name, from, to });
+    }
+  }
+
+  stack.forEach(reportUnclosed);
+
+  return diagnostics;
+};
+
+const check = ({ code, language, path }: DiagnosticsRequest): EditorDiagnostic[] => {
+  if (language === "css" || path.endsWith(".css")) return checkCss(code);
+  if (language === "html" || path.endsWith(".html")) return checkHtml(code);
+  if (language in SCRIPT_EXTENSIONS || /\.m?[jt]sx?$/.test(path)) return checkScript(code, language, path);
+  return [];
+};
+
+const worker = self as unknown as Worker;
+
+worker.addEventListener("message", (event: MessageEvent<DiagnosticsRequest>) => {
+  const response: DiagnosticsResponse = {
+    id: event.data.id,
+    diagnostics: check(event.data),
+  };
+  worker.postMessage(response);
+});
@@ -0,0 +1,526 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/**
+ * One interface over the chat model APIs the edge functions can use. Requests
+ * and tools are written in the OpenAI format; each provider translates them
+ * and streams back the same events.
+ */
+
+export const PROVIDERS = ['lovable', 'openai', 'gemini', 'anthropic', 'ollama', 'mock'] as const;
+export type ProviderId = typeof PROVIDERS[number];
+
+export const DEFAULT_MODELS: Record<ProviderId, string> = {
+  lovable: 'google/gemini-2.5-flash',
+  openai: 'gpt-4o-mini',
+  gemini: 'gemini-2.5-flash',
+  anthropic: 'claude-3-5-haiku-latest',
+  ollama: 'llama3.1',
+  mock: 'mock',
+};
+
+export interface ProviderConfig {
+  provider: ProviderId;
+  model: string;
+  /** Used when a request doesn't set its own */
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/** Extra content of a user message; images are base64 encoded. */
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mimeType: string; data: string };
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+  /** Sent after `content`; images only reach providers with `supportsImages` */
+  parts?: ContentPart[];
+}
+
+export interface ToolDefinition {
+  type: 'function';
+  function: { name: string; description: string; parameters: Record<string, unknown> };
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Aborts the upstream request, e.g. when the caller disconnects */
+  signal?: AbortSignal;
+  /** Called with the token counts the provider reports; a later call replaces an earlier one */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export type ChatEvent =
+  | { type: 'text'; delta: string }
+  | { type: 'tool_call'; index: number; id?: string; name?: string; argumentsDelta: string };
+
+export interface ModelProvider {
+  config: ProviderConfig;
+  /** Whether image content parts can be sent */
+  supportsImages: boolean;
+  /** Resolves once the provider accepted the request; throws ProviderError otherwise */
+  stream(request: ChatRequest): Promise<AsyncIterable<ChatEvent>>;
+}
+
+/** A provider failure with the HTTP status the edge function should answer with. */
+export class ProviderError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+const toProviderError = async (response: Response, provider: ProviderId) => {
+  const errorText = await response.text();
+  console.error(`${provider} error:`, response.status, errorText);
+
+  switch (response.status) {
+    case 429:
+    case 529:
+      return new ProviderError(429, 'Rate limit exceeded. Please try again later.');
+    case 402:
+      return new ProviderError(402, 'AI credits depleted. Please add credits to continue.');
+    case 401:
+    case 403:
+      return new ProviderError(500, `The ${provider} API key was rejected`);
+    default:
+      return new ProviderError(502, 'AI provider error');
+  }
+};
+
+const requireEnv = (name: string) => {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`${name} is not configured`);
+  return value;
+};
+
+/** Yields the payload of each `data:` line of a server-sent event stream. */
+async function* sseData(body: ReadableStream<Uint8Array>) {
+  const decoder = new TextDecoder();
+  const reader = body.getReader();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let newlineIndex: number;
+    while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newlineIndex).trim();
+      buffer = buffer.slice(newlineIndex + 1);
+
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (data && data !== '[DONE]') yield data;
+    }
+  }
+}
+
+async function* sseJson(body: ReadableStream<Uint8Array>) {
+  for await (const data of sseData(body)) {
+    try {
+      yield JSON.parse(data);
+    } catch {
+      continue;
+    }
+  }
+}
+
+const toOpenAIMessage = ({ role, content, parts }: ChatMessage) =>
+  parts?.length
+    ? {
+        role,
+        content: [
+          ...(content ? [{ type: 'text', text: content }] : []),
+          ...parts.map((part) =>
+            part.type === 'text'
+              ? part
+              : { type: 'image_url', image_url: { url: `data:${part.mimeType};base64,${part.data}` } }
+          ),
+        ],
+      }
+    : { role, content };
+
+const openAICompatible = (
+  config: ProviderConfig,
+  baseUrl: string,
+  apiKey: string | undefined,
+  supportsImages = true
+): ModelProvider => ({
+  config,
+  supportsImages,
+  async stream({ messages, tools, temperature, maxTokens, signal, onUsage }) {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: config.model,
+        messages: messages.map(toOpenAIMessage),
+        tools: tools?.length ? tools : undefined,
+        temperature,
+        max_tokens: maxTokens,
+        stream: true,
+        stream_options: { include_usage: true },
+      }),
+    });
+
+    if (!response.ok) throw await toProviderError(response, config.provider);
+
+    return (async function* () {
+      for await (const parsed of sseJson(response.body!)) {
+        if (parsed.error) throw new Error(parsed.error.message ?? 'AI stream error');
+
+        // Sent in a final chunk without choices
+        if (parsed.usage) {
+          onUsage?.({
+            promptTokens: parsed.usage.prompt_tokens ?? 0,
+            completionTokens: parsed.usage.completion_tokens ?? 0,
+          });
+        }
+
+        const delta = parsed.choices?.[0]?.delta;
+        if (!delta) continue;
+
+        if (delta.content) {
+          yield { type: 'text', delta: delta.content } as ChatEvent;
+        }
+        for (const toolCall of delta.tool_calls ?? []) {
+          yield {
+            type: 'tool_call',
+            index: toolCall.index ?? 0,
+            id: toolCall.id,
+            name: toolCall.function?.name,
+            argumentsDelta: toolCall.function?.arguments ?? '',
+          } as ChatEvent;
+        }
+      }
+    })();
+  },
+});
+
+const systemPrompt = (messages: ChatMessage[]) =>
+  messages.filter((m) => m.role === 'system').map((m) => m.content).join('\n\n');
+
+const toGeminiParts = ({ content, parts = [] }: ChatMessage) => [
+  ...(content ? [{ text: content }] : []),
+  ...parts.map((part) =>
+    part.type === 'text' ? { text: part.text } : { inlineData: { mimeType: part.mimeType, data: part.data } }
+  ),
+];
+
+const gemini = (config: ProviderConfig, apiKey: string): ModelProvider => ({
+  config,
+  supportsImages: true,
+  async stream({ messages, tools, temperature, maxTokens, signal, onUsage }) {
+    const system = systemPrompt(messages);
+    const url =
+      `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(config.model)}` +
+      `:streamGenerateContent?alt=sse&key=${apiKey}`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        contents: messages
+          .filter((m) => m.role !== 'system')
+          .map((m) => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: toGeminiParts(m) }))
+          // Turns without parts are rejected
+          .filter((turn) => turn.parts.length > 0),
+        systemInstruction: system ? { parts: [{ text: system }] } : undefined,
+        tools: tools?.length ? [{ functionDeclarations: tools.map((t) => t.function) }] : undefined,
+        generationConfig: { temperature, maxOutputTokens: maxTokens },
+      }),
+    });
+
+    if (!response.ok) throw await toProviderError(response, config.provider);
+
+    return (async function* () {
+      // Gemini sends each function call whole, in its own part
+      let toolIndex = 0;
+      for await (const parsed of sseJson(response.body!)) {
+        if (parsed.error) throw new Error(parsed.error.message ?? 'AI stream error');
+
+        // Running totals, repeated in every chunk
+        if (parsed.usageMetadata) {
+          onUsage?.({
+            promptTokens: parsed.usageMetadata.promptTokenCount ?? 0,
+            completionTokens: parsed.usageMetadata.candidatesTokenCount ?? 0,
+          });
+        }
+
+        for (const part of parsed.candidates?.[0]?.content?.parts ?? []) {
+          if (part.text) {
+            yield { type: 'text', delta: part.text } as ChatEvent;
+          }
+          if (part.functionCall) {
+            yield {
+              type: 'tool_call',
+              index: toolIndex,
+              id: `call_${toolIndex}`,
+              name: part.functionCall.name,
+              argumentsDelta: JSON.stringify(part.functionCall.args ?? {}),
+            } as ChatEvent;
+            toolIndex++;
+          }
+        }
+      }
+    })();
+  },
+});
+
+// Anthropic requires max_tokens and strictly alternating user/assistant turns
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 8192;
+
+type AnthropicBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } };
+
+const toAnthropicBlocks = ({ content, parts = [] }: ChatMessage): AnthropicBlock[] => [
+  // Empty text blocks are rejected
+  ...(content ? [{ type: 'text' as const, text: content }] : []),
+  ...parts.map((part): AnthropicBlock =>
+    part.type === 'text'
+      ? part
+      : { type: 'image', source: { type: 'base64', media_type: part.mimeType, data: part.data } }
+  ),
+];
+
+const anthropic = (config: ProviderConfig, apiKey: string): ModelProvider => ({
+  config,
+  supportsImages: true,
+  async stream({ messages, tools, temperature, maxTokens, signal, onUsage }) {
+    const turns: { role: 'user' | 'assistant'; content: AnthropicBlock[] }[] = [];
+    for (const message of messages) {
+      const blocks = toAnthropicBlocks(message);
+      // Turns without content are rejected too, e.g. an assistant reply that
+      // was stopped before any text; the turns around it are merged instead
+      if (message.role === 'system' || blocks.length === 0) continue;
+      const last = turns[turns.length - 1];
+      if (last?.role === message.role) {
+        last.content.push(...blocks);
+      } else {
+        turns.push({ role: message.role, content: blocks });
+      }
+    }
+
+    const response = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      signal,
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: config.model,
+        system: systemPrompt(messages) || undefined,
+        messages: turns,
+        tools: tools?.length
+          ? tools.map(({ function: f }) => ({
+              name: f.name,
+              description: f.description,
+              input_schema: f.parameters,
+            }))
+          : undefined,
+        temperature,
+        max_tokens: maxTokens ?? ANTHROPIC_DEFAULT_MAX_TOKENS,
+        stream: true,
+      }),
+    });
+
+    if (!response.ok) throw await toProviderError(response, config.provider);
+
+    return (async function* () {
+      // Input tokens come with message_start, the output total with message_delta
+      let promptTokens = 0;
+      for await (const parsed of sseJson(response.body!)) {
+        if (parsed.type === 'error') throw new Error(parsed.error?.message ?? 'AI stream error');
+
+        if (parsed.type === 'message_start' && parsed.message?.usage) {
+          promptTokens = parsed.message.usage.input_tokens ?? 0;
+          onUsage?.({ promptTokens, completionTokens: parsed.message.usage.output_tokens ?? 0 });
+        }
+        if (parsed.type === 'message_delta' && parsed.usage) {
+          onUsage?.({ promptTokens, completionTokens: parsed.usage.output_tokens ?? 0 });
+        }
+
+        if (parsed.type === 'content_block_start' && parsed.content_block?.type === 'tool_use') {
+          yield {
+            type: 'tool_call',
+            index: parsed.index,
+            id: parsed.content_block.id,
+            name: parsed.content_block.name,
+            argumentsDelta: '',
+          } as ChatEvent;
+        }
+        if (parsed.type === 'content_block_delta') {
+          if (parsed.delta?.type === 'text_delta') {
+            yield { type: 'text', delta: parsed.delta.text } as ChatEvent;
+          }
+          if (parsed.delta?.type === 'input_json_delta') {
+            yield {
+              type: 'tool_call',
+              index: parsed.index,
+              argumentsDelta: parsed.delta.partial_json,
+            } as ChatEvent;
+          }
+        }
+      }
+    })();
+  },
+});
+
+/** Answers without a network call, for local development and tests. */
+const mock = (config: ProviderConfig): ModelProvider => ({
+  config,
+  supportsImages: false,
+  async stream({ messages, signal }) {
+    const lastUser = [...messages].reverse().find((m) => m.role === 'user');
+    const reply = `Mock reply to: ${lastUser?.content ?? ''}`;
+
+    return (async function* () {
+      for (const word of reply.split(/(?<= )/)) {
+        if (signal?.aborted) return;
+        yield { type: 'text', delta: word } as ChatEvent;
+      }
+    })();
+  },
+});
+
+/** Fills in the configured generation parameters the request leaves unset. */
+const withDefaults = (provider: ModelProvider): ModelProvider => ({
+  config: provider.config,
+  supportsImages: provider.supportsImages,
+  stream: (request) =>
+    provider.stream({
+      ...request,
+      temperature: request.temperature ?? provider.config.temperature,
+      maxTokens: request.maxTokens ?? provider.config.maxTokens,
+    }),
+});
+
+/** Builds a provider; API keys and endpoints come from the function's environment. */
+export function createProvider(config: ProviderConfig): ModelProvider {
+  return withDefaults(createBaseProvider(config));
+}
+
+function createBaseProvider(config: ProviderConfig): ModelProvider {
+  switch (config.provider) {
+    case 'lovable':
+      return openAICompatible(config, 'https://ai.gateway.lovable.dev/v1', requireEnv('LOVABLE_API_KEY'));
+    case 'openai':
+      return openAICompatible(
+        config,
+        Deno.env.get('OPENAI_BASE_URL') ?? 'https://api.openai.com/v1',
+        requireEnv('OPENAI_API_KEY')
+      );
+    case 'gemini':
+      return gemini(config, requireEnv('GEMINI_API_KEY'));
+    case 'anthropic':
+      return anthropic(config, requireEnv('ANTHROPIC_API_KEY'));
+    case 'ollama':
+      // Only some local models take images, so attachments are described in text
+      return openAICompatible(
+        config,
+        Deno.env.get('OLLAMA_BASE_URL') ?? 'http://localhost:11434/v1',
+        Deno.env.get('OLLAMA_API_KEY'),
+        false
+      );
+    case 'mock':
+      return mock(config);
+    default:
+      throw new Error(`Unknown AI provider: ${config.provider}`);
+  }
+}
+
+const isProvider = (value: unknown): value is ProviderId => PROVIDERS.includes(value as ProviderId);
+
+export interface ProjectAISettings {
+  provider: string | null;
+  model: string | null;
+  temperature: number | null;
+  max_tokens: number | null;
+  custom_instructions: string | null;
+  monthly_token_quota: number | null;
+}
+
+/** The project's row in project_ai_settings, or null when it has none. */
+export async function loadProjectAISettings(
+  supabase: SupabaseClient,
+  projectId: string | null | undefined
+): Promise<ProjectAISettings | null> {
+  if (!projectId) return null;
+
+  const { data, error } = await supabase
+    .from('project_ai_settings')
+    .select('provider, model, temperature, max_tokens, custom_instructions, monthly_token_quota')
+    .eq('project_id', projectId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * The provider chosen in the given settings. Without settings, uses
+ * AI_PROVIDER / AI_MODEL from the environment, then the Lovable gateway.
+ */
+export function providerFromSettings(settings: ProjectAISettings | null): ModelProvider {
+  const envProvider = Deno.env.get('AI_PROVIDER');
+  const provider = [settings?.provider, envProvider].find(isProvider) ?? 'lovable';
+  const model =
+    settings?.model ||
+    (provider === envProvider ? Deno.env.get('AI_MODEL') : undefined) ||
+    DEFAULT_MODELS[provider];
+
+  return createProvider({
+    provider,
+    model,
+    temperature: settings?.temperature ?? undefined,
+    maxTokens: settings?.max_tokens ?? undefined,
+  });
+}
+
+/** The provider chosen in the project's AI settings. */
+export async function providerForProject(
+  supabase: SupabaseClient,
+  projectId: string | null | undefined
+): Promise<ModelProvider> {
+  return providerFromSettings(await loadProjectAISettings(supabase, projectId));
+}
+
+/** Runs a request to completion and returns the reply text. */
+export async function completeText(provider: ModelProvider, request: ChatRequest): Promise<string> {
+  let text = '';
+  for await (const event of await provider.stream(request)) {
+    if (event.type === 'text') text += event.delta;
+  }
+  return text;
+}
+
+/** JSON error response, keeping the status of provider errors such as 429 and 402. */
+export function errorResponse(error: unknown, headers: Record<string, string>) {
+  return new Response(
+    JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+    {
+      status: error instanceof ProviderError ? error.status : 500,
+      headers: { ...headers, 'Content-Type': 'application/json' },
+    }
+  );
+}
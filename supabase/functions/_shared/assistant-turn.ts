@@ -0,0 +1,190 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  ChatRequest,
+  ModelProvider,
+  ToolDefinition,
+  loadProjectAISettings,
+  providerFromSettings,
+} from "./ai-provider.ts";
+import { AttachedMessage, resolveAttachments } from "./attachments.ts";
+import { CONTEXT_TOKEN_BUDGET, buildProjectContext, estimateTokens, mentionedPaths } from "./context.ts";
+import { embedderFromEnv } from "./embeddings.ts";
+import { RetrievedChunk, retrieveChunks, syncFileChunks } from "./retrieval.ts";
+import { UsageSource, trackUsage } from "./usage.ts";
+
+/**
+ * The coding assistant's request: file tools, system prompt and project
+ * context. Shared by ai-code-assistant, which streams a turn to the browser,
+ * and ai-job-worker, which runs it in the background.
+ */
+
+const stringParam = (description: string) => ({ type: 'string', description });
+
+export const FILE_TOOLS: ToolDefinition[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'create_file',
+      description: 'Create a new file, or overwrite an existing one, with the given content.',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: stringParam('File path relative to the project root'),
+          content: stringParam('Complete file content'),
+          language: stringParam('Language id, e.g. html, css, javascript, typescript'),
+        },
+        required: ['path', 'content', 'language'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'edit_file',
+      description: 'Replace the content of an existing file.',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: stringParam('Path of the file to edit'),
+          content: stringParam('Complete new file content'),
+          language: stringParam('Language id, if it changed'),
+        },
+        required: ['path', 'content'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'patch_file',
+      description:
+        'Change part of an existing file, either with search/replace hunks or with a unified diff.',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: stringParam('Path of the file to patch'),
+          hunks: {
+            type: 'array',
+            description: 'Search/replace hunks applied in order',
+            items: {
+              type: 'object',
+              properties: {
+                search: stringParam('Exact text to find; must occur exactly once'),
+                replace: stringParam('Replacement text'),
+              },
+              required: ['search', 'replace'],
+            },
+          },
+          diff: stringParam('Unified diff against the current file, used instead of hunks'),
+        },
+        required: ['path'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'delete_file',
+      description: 'Delete a file from the project.',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: stringParam('Path of the file to delete'),
+        },
+        required: ['path'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'rename_file',
+      description: 'Rename or move a file.',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: stringParam('Current path of the file'),
+          newPath: stringParam('New path of the file'),
+        },
+        required: ['path', 'newPath'],
+      },
+    },
+  },
+];
+
+const SYSTEM_PROMPT = `You are an AI coding assistant. Help users build their projects by:
+1. Understanding their requirements clearly
+2. Creating or editing files as needed
+3. Providing clear explanations of changes
+4. Following best practices
+
+Use the provided tools to change files: create_file, edit_file, patch_file, delete_file and rename_file.
+Prefer patch_file for small changes to existing files, using search/replace hunks whose search text appears exactly once in the file, or a unified diff.
+Always pass complete file contents to create_file and edit_file. Paths are relative to the project root.
+Explain what you changed in plain prose; never paste file actions as JSON in your reply.
+Base your changes on the current file contents below. Keep code you were not asked to change.`;
+
+interface AssistantTurnInput {
+  projectId: string;
+  messages: AttachedMessage[];
+  selectedPath?: string;
+  /** Who usage is recorded for */
+  userId: string;
+  source: UsageSource;
+  /** Background turns write their changes straight to the project */
+  applyDirectly?: boolean;
+}
+
+/** Loads the project's files and settings and builds the model request. */
+export async function prepareAssistantTurn(
+  supabase: SupabaseClient,
+  { projectId, messages, selectedPath, userId, source, applyDirectly = false }: AssistantTurnInput
+): Promise<{ provider: ModelProvider; request: ChatRequest }> {
+  const { data: files, error: filesError } = await supabase
+    .from('files')
+    .select('id, path, content, updated_at')
+    .eq('project_id', projectId);
+
+  if (filesError) throw filesError;
+
+  // Projects too big for the prompt get the chunks closest to the request
+  const projectTokens = (files ?? []).reduce((sum, f) => sum + estimateTokens(f.content ?? ''), 0);
+  const query = [...messages].reverse().find((m) => m.role === 'user')?.content;
+  let chunks: RetrievedChunk[] = [];
+  // Files named as `@path` in the request are attached in full
+  const mentioned = query ? mentionedPaths(query, (files ?? []).map((f) => f.path)) : [];
+
+  if (projectTokens > CONTEXT_TOKEN_BUDGET && query) {
+    try {
+      const embedder = embedderFromEnv();
+      await syncFileChunks(supabase, embedder, projectId, files!);
+      chunks = await retrieveChunks(supabase, embedder, projectId, query);
+    } catch (error) {
+      // Answer without retrieval rather than failing the request
+      console.error('Retrieval failed:', error);
+    }
+  }
+
+  const settings = await loadProjectAISettings(supabase, projectId);
+  const instructions = settings?.custom_instructions?.trim();
+
+  const systemPrompt = [
+    SYSTEM_PROMPT,
+    applyDirectly
+      ? 'Your changes are applied to the project as soon as you make them; a checkpoint is saved first.'
+      : 'Your changes are shown to the user for review before they are applied.',
+    buildProjectContext(files ?? [], selectedPath, chunks, mentioned),
+    instructions && `## Project instructions\nFollow these instructions from the project owner:\n${instructions}`,
+  ].filter(Boolean).join('\n\n');
+
+  const provider = trackUsage(providerFromSettings(settings), { projectId, userId, source });
+  const history = await resolveAttachments(supabase, projectId, messages, provider.supportsImages);
+
+  return {
+    provider,
+    request: {
+      messages: [{ role: 'system', content: systemPrompt }, ...history],
+      tools: FILE_TOOLS,
+    },
+  };
+}
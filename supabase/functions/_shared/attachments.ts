@@ -0,0 +1,103 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ChatMessage, ContentPart } from "./ai-provider.ts";
+import { estimateTokens } from "./context.ts";
+
+/**
+ * Files attached to chat messages. The browser uploads them to the
+ * `chat-attachments` bucket under `<project id>/`; before a turn they are
+ * downloaded and turned into content parts.
+ */
+
+export const ATTACHMENTS_BUCKET = 'chat-attachments';
+
+export interface Attachment {
+  path: string;
+  name: string;
+  mimeType: string;
+  size: number;
+}
+
+/** A chat message as sent by the editor, before its attachments are loaded. */
+export interface AttachedMessage extends ChatMessage {
+  attachments?: Attachment[];
+}
+
+// Images are the expensive part of a request; older ones are only named
+const MAX_IMAGES = 4;
+const MAX_TEXT_TOKENS = 6000;
+
+const isImage = (attachment: Attachment) => attachment.mimeType.startsWith('image/');
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // Chunked so large images don't overflow the argument list
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+async function loadAttachment(
+  supabase: SupabaseClient,
+  attachment: Attachment,
+  sendImage: boolean
+): Promise<ContentPart> {
+  if (isImage(attachment) && !sendImage) {
+    return { type: 'text', text: `[Attached image: ${attachment.name}]` };
+  }
+
+  const { data, error } = await supabase.storage.from(ATTACHMENTS_BUCKET).download(attachment.path);
+  if (error) throw error;
+
+  if (isImage(attachment)) {
+    return {
+      type: 'image',
+      mimeType: attachment.mimeType,
+      data: toBase64(new Uint8Array(await data.arrayBuffer())),
+    };
+  }
+
+  let text = await data.text();
+  if (estimateTokens(text) > MAX_TEXT_TOKENS) {
+    text = `${text.slice(0, MAX_TEXT_TOKENS * 4)}\n… (truncated)`;
+  }
+  return { type: 'text', text: `Attached file \`${attachment.name}\`:\n\`\`\`\n${text}\n\`\`\`` };
+}
+
+/**
+ * Replaces each message's attachments with content parts. Only attachments
+ * stored under the project are read, so a request cannot pull in another
+ * project's files even with a service role client.
+ */
+export async function resolveAttachments(
+  supabase: SupabaseClient,
+  projectId: string,
+  messages: AttachedMessage[],
+  supportsImages: boolean
+): Promise<ChatMessage[]> {
+  let imagesLeft = supportsImages ? MAX_IMAGES : 0;
+
+  // Newest first, so the latest images are the ones sent
+  const resolved = [];
+  for (const { attachments = [], ...message } of [...messages].reverse()) {
+    const parts: ContentPart[] = [];
+
+    for (const attachment of attachments) {
+      if (!attachment.path.startsWith(`${projectId}/`)) continue;
+
+      const sendImage = isImage(attachment) && imagesLeft > 0;
+      if (sendImage) imagesLeft--;
+
+      try {
+        parts.push(await loadAttachment(supabase, attachment, sendImage));
+      } catch (error) {
+        console.error(`Could not load attachment ${attachment.path}:`, error);
+        parts.push({ type: 'text', text: `[Attachment ${attachment.name} could not be loaded]` });
+      }
+    }
+
+    resolved.unshift(parts.length > 0 ? { ...message, parts: [...(message.parts ?? []), ...parts] } : message);
+  }
+
+  return resolved;
+}
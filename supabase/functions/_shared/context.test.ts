@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { buildProjectContext, estimateTokens, mentionedPaths } from './context.ts';
+
+// estimateTokens counts four characters per token
+const fileOf = (path: string, tokens: number, updatedAt = '2025-10-01T00:00:00Z') => ({
+  path,
+  content: 'x'.repeat(tokens * 4),
+  updated_at: updatedAt,
+});
+
+const chunk = (path: string, tokens: number) => ({
+  path,
+  start_line: 1,
+  end_line: 10,
+  content: 'y'.repeat(tokens * 4),
+  similarity: 0.9,
+});
+
+describe('buildProjectContext', () => {
+  it('says so when the project is empty', () => {
+    expect(buildProjectContext([], undefined)).toBe('## Project files\nThe project has no files yet.');
+  });
+
+  it('shows small projects in full', () => {
+    const context = buildProjectContext([fileOf('a.ts', 10), fileOf('b.ts', 10)], 'a.ts');
+
+    expect(context).toContain('## Project files\n- a.ts\n- b.ts');
+    expect(context).toContain(`## Selected file\n### a.ts\n`);
+    expect(context).toContain('## Recently edited files\n### b.ts\n');
+    expect(context).not.toContain('Not shown in full');
+  });
+
+  it('truncates the selected file over the per-file limit', () => {
+    const context = buildProjectContext([fileOf('big.ts', 8000)], 'big.ts');
+
+    expect(context).toContain('### big.ts (truncated)');
+    expect(estimateTokens(context)).toBeLessThan(6100);
+  });
+
+  it('never truncates mentioned files', () => {
+    const context = buildProjectContext([fileOf('big.ts', 8000)], 'big.ts', [], ['big.ts']);
+
+    expect(context).not.toContain('(truncated)');
+  });
+
+  it('fills the budget with the most recently edited files and lists the rest', () => {
+    const files = [
+      fileOf('old.ts', 4000, '2025-10-01T00:00:00Z'),
+      fileOf('newest.ts', 4000, '2025-10-03T00:00:00Z'),
+      fileOf('newer.ts', 4000, '2025-10-02T00:00:00Z'),
+    ];
+
+    const context = buildProjectContext(files, undefined, [], [], 9000);
+
+    expect(context.indexOf('### newest.ts')).toBeLessThan(context.indexOf('### newer.ts'));
+    expect(context).not.toContain('### old.ts');
+    expect(context).toContain('Not shown in full to save space: old.ts.');
+    expect(estimateTokens(context)).toBeLessThan(9100);
+  });
+
+  it('adds retrieved chunks within their share of the budget', () => {
+    const files = [fileOf('a.ts', 10), fileOf('b.ts', 10)];
+    const chunks = [chunk('a.ts', 100), chunk('b.ts', 7000), chunk('c.ts', 2000), chunk('d.ts', 500)];
+
+    const context = buildProjectContext(files, 'a.ts', chunks);
+
+    // The selected file is shown already, and c.ts would go over the limit
+    expect(context).toContain('## Relevant code\n### b.ts:1-10');
+    expect(context).toContain('### d.ts:1-10');
+    expect(context).not.toContain('### a.ts:1-10');
+    expect(context).not.toContain('### c.ts:1-10');
+  });
+});
+
+describe('mentionedPaths', () => {
+  const paths = ['src/App.tsx', 'src/App.css', 'README.md'];
+
+  it('finds @path mentions, including at the end of a sentence', () => {
+    expect(mentionedPaths('Compare @src/App.tsx with @README.md.', paths)).toEqual(['src/App.tsx', 'README.md']);
+  });
+
+  it('ignores paths that only start a longer mention', () => {
+    expect(mentionedPaths('Look at @src/App.tsx.bak and mail@src/App.css', paths)).toEqual([]);
+  });
+});
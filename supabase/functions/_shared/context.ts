@@ -0,0 +1,135 @@
+import type { RetrievedChunk } from "./retrieval.ts";
+
+export interface ContextFile {
+  path: string;
+  content: string | null;
+  updated_at: string | null;
+}
+
+// Rough estimate; good enough to keep the prompt inside the model's window
+const CHARS_PER_TOKEN = 4;
+
+export const CONTEXT_TOKEN_BUDGET = 24000;
+const MAX_FILE_TOKENS = 6000;
+const MAX_TREE_TOKENS = 2000;
+const MAX_RETRIEVED_TOKENS = 8000;
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+/**
+ * Keeps the start and end of a file that is over the per-file limit, so the
+ * model still sees imports and exports.
+ */
+const truncate = (content: string, maxTokens: number) => {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  if (content.length <= maxChars) return { text: content, truncated: false };
+
+  const head = content.slice(0, Math.floor(maxChars * 0.75));
+  const tail = content.slice(content.length - Math.floor(maxChars * 0.25));
+  const omitted = content.length - head.length - tail.length;
+  return { text: `${head}\n… (${omitted} characters omitted)\n${tail}`, truncated: true };
+};
+
+const fileBlock = (path: string, text: string, truncated: boolean) =>
+  `### ${path}${truncated ? ' (truncated)' : ''}\n\`\`\`\n${text}\n\`\`\``;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Paths the text mentions as `@path`. A mention ends at whitespace or
+ * punctuation that ends a sentence, so "see @src/App.tsx." counts.
+ */
+export const mentionedPaths = (text: string, paths: string[]) =>
+  paths.filter((path) =>
+    new RegExp(`(^|\\s)@${escapeRegExp(path)}(?=$|\\s|[,;:!?)]|\\.(\\s|$))`).test(text)
+  );
+
+/**
+ * Builds the project section of the system prompt: the file tree, the
+ * selected file, files the user mentioned (in full), code retrieved for the
+ * request, then the most recently edited files until the budget runs out.
+ */
+export function buildProjectContext(
+  files: ContextFile[],
+  selectedPath: string | undefined,
+  chunks: RetrievedChunk[] = [],
+  mentioned: string[] = [],
+  budget = CONTEXT_TOKEN_BUDGET
+): string {
+  if (files.length === 0) {
+    return '## Project files\nThe project has no files yet.';
+  }
+
+  const paths = files.map((f) => f.path).sort();
+  const tree = truncate(paths.map((path) => `- ${path}`).join('\n'), MAX_TREE_TOKENS).text;
+  const sections = [`## Project files\n${tree}`];
+  let remaining = budget - estimateTokens(tree);
+
+  const selected = files.find((f) => f.path === selectedPath);
+  if (selected) {
+    const { text, truncated } = mentioned.includes(selected.path)
+      ? { text: selected.content ?? '', truncated: false }
+      : truncate(selected.content ?? '', MAX_FILE_TOKENS);
+    sections.push(`## Selected file\n${fileBlock(selected.path, text, truncated)}`);
+    remaining -= estimateTokens(text);
+  }
+
+  // The user asked about these by name, so they are never cut short
+  const mentionedFiles = files.filter((f) => f !== selected && mentioned.includes(f.path));
+  if (mentionedFiles.length > 0) {
+    sections.push(
+      `## Mentioned files\n${mentionedFiles.map((f) => fileBlock(f.path, f.content ?? '', false)).join('\n\n')}`
+    );
+    remaining -= mentionedFiles.reduce((sum, f) => sum + estimateTokens(f.content ?? ''), 0);
+  }
+  const shown = new Set([selected?.path, ...mentionedFiles.map((f) => f.path)]);
+
+  const chunkBlocks: string[] = [];
+  let chunkBudget = Math.min(remaining, MAX_RETRIEVED_TOKENS);
+  for (const chunk of chunks) {
+    const cost = estimateTokens(chunk.content);
+    if (shown.has(chunk.path) || cost > chunkBudget) continue;
+
+    chunkBlocks.push(`### ${chunk.path}:${chunk.start_line}-${chunk.end_line}\n\`\`\`\n${chunk.content}\n\`\`\``);
+    chunkBudget -= cost;
+    remaining -= cost;
+  }
+
+  if (chunkBlocks.length > 0) {
+    sections.push(`## Relevant code\n${chunkBlocks.join('\n\n')}`);
+  }
+
+  const recent = files
+    .filter((f) => !shown.has(f.path))
+    .sort((a, b) => (b.updated_at ?? '').localeCompare(a.updated_at ?? ''));
+
+  const recentBlocks: string[] = [];
+  const omitted: string[] = [];
+
+  for (const file of recent) {
+    const { text, truncated } = truncate(file.content ?? '', Math.min(MAX_FILE_TOKENS, remaining));
+    const cost = estimateTokens(text);
+
+    // Past the budget, or so little room left that only a sliver would fit
+    if (remaining <= 0 || (truncated && cost < MAX_FILE_TOKENS / 4)) {
+      omitted.push(file.path);
+      continue;
+    }
+
+    recentBlocks.push(fileBlock(file.path, text, truncated));
+    remaining -= cost;
+  }
+
+  if (recentBlocks.length > 0) {
+    sections.push(`## Recently edited files\n${recentBlocks.join('\n\n')}`);
+  }
+
+  if (omitted.length > 0) {
+    sections.push(
+      `Not shown in full to save space: ${omitted.join(', ')}. ` +
+        'Do not rewrite these files with edit_file; use patch_file or ask the user for their content.'
+    );
+  }
+
+  return sections.join('\n\n');
+}
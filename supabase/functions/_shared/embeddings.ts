@@ -0,0 +1,114 @@
+// Must match the vector column in the file_chunks migration
+export const EMBEDDING_DIMENSIONS = 768;
+
+export interface Embedder {
+  /** Stored with each chunk; changing it re-embeds the project */
+  id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const normalize = (vector: number[]) => {
+  const length = Math.hypot(...vector);
+  return length === 0 ? vector : vector.map((value) => value / length);
+};
+
+// FNV-1a, so the same token always lands in the same bucket
+const hash = (token: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    h ^= token.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+/** Words and identifiers, with camelCase and snake_case names also split into parts. */
+const tokenize = (text: string) => {
+  const tokens: string[] = [];
+  for (const word of text.match(/[A-Za-z_$][\w$]*|\d+/g) ?? []) {
+    tokens.push(word.toLowerCase());
+    const parts = word.split(/_|(?<=[a-z0-9])(?=[A-Z])/).filter(Boolean);
+    if (parts.length > 1) tokens.push(...parts.map((part) => part.toLowerCase()));
+  }
+  return tokens;
+};
+
+/**
+ * Hashed bag-of-words vectors. Needs no network or API key and gives the same
+ * output for the same input, so it works offline and in tests; retrieval
+ * quality is keyword-level only.
+ */
+export function createLocalEmbedder(): Embedder {
+  return {
+    id: `local-hash-${EMBEDDING_DIMENSIONS}`,
+    embed: async (texts) =>
+      texts.map((text) => {
+        const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+        for (const token of tokenize(text)) {
+          const h = hash(token);
+          vector[h % EMBEDDING_DIMENSIONS] += h & 0x80000000 ? -1 : 1;
+        }
+        return normalize(vector);
+      }),
+  };
+}
+
+interface OpenAIEmbedderOptions {
+  apiKey: string;
+  baseUrl?: string;
+  model?: string;
+}
+
+/** Any OpenAI-compatible `/embeddings` endpoint that supports `dimensions`. */
+export function createOpenAIEmbedder({
+  apiKey,
+  baseUrl = 'https://api.openai.com/v1',
+  model = 'text-embedding-3-small',
+}: OpenAIEmbedderOptions): Embedder {
+  return {
+    id: `${model}-${EMBEDDING_DIMENSIONS}`,
+    embed: async (texts) => {
+      const response = await fetch(`${baseUrl}/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ model, input: texts, dimensions: EMBEDDING_DIMENSIONS }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('Embeddings error:', response.status, errorText);
+        throw new Error('Embeddings request failed');
+      }
+
+      const { data } = await response.json();
+      return data
+        .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+        .map((item: { embedding: number[] }) => item.embedding);
+    },
+  };
+}
+
+/**
+ * Picks the embedder from EMBEDDINGS_PROVIDER ('openai' or 'local'). Without
+ * it, uses OpenAI when OPENAI_API_KEY is set and the local embedder otherwise.
+ */
+export function embedderFromEnv(): Embedder {
+  const apiKey = Deno.env.get('OPENAI_API_KEY');
+  const provider = Deno.env.get('EMBEDDINGS_PROVIDER') ?? (apiKey ? 'openai' : 'local');
+
+  if (provider === 'local') {
+    return createLocalEmbedder();
+  }
+  if (provider === 'openai') {
+    if (!apiKey) throw new Error('OPENAI_API_KEY is not configured');
+    return createOpenAIEmbedder({
+      apiKey,
+      baseUrl: Deno.env.get('EMBEDDINGS_BASE_URL'),
+      model: Deno.env.get('EMBEDDINGS_MODEL'),
+    });
+  }
+  throw new Error(`Unknown EMBEDDINGS_PROVIDER: ${provider}`);
+}
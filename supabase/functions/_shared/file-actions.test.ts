@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import * as client from '../../../src/lib/file-actions';
+import * as server from './file-actions.ts';
+
+// The editor and the edge functions each keep a copy of the file tool schemas;
+// both have to accept and reject the same calls in the same words
+const CALLS: server.ToolCall[] = [
+  { name: 'create_file', arguments: '{"path":"src/a.ts","content":"export {};","language":"typescript"}' },
+  { name: 'create_file', arguments: '{"path":"src/a.ts","content":"export {};"}' },
+  { name: 'create_file', arguments: '{"path":"/etc/passwd","content":"","language":"text"}' },
+  { name: 'edit_file', arguments: '{"path":" src/a.ts ","content":"export const a = 1;"}' },
+  { name: 'edit_file', arguments: '{"path":"../a.ts","content":""}' },
+  { name: 'patch_file', arguments: '{"path":"src/a.ts","hunks":[{"search":"a = 1","replace":"a = 2"}]}' },
+  { name: 'patch_file', arguments: '{"path":"src/a.ts","diff":"@@ -1 +1 @@\\n-a\\n+b\\n"}' },
+  { name: 'patch_file', arguments: '{"path":"src/a.ts"}' },
+  { name: 'patch_file', arguments: '{"path":"src/a.ts","hunks":[{"search":"","replace":"x"}]}' },
+  { name: 'delete_file', arguments: '{"path":"src/a.ts"}' },
+  { name: 'delete_file', arguments: '{"path":""}' },
+  { name: 'rename_file', arguments: '{"path":"src/a.ts","newPath":"src/b.ts"}' },
+  { name: 'rename_file', arguments: '{"path":"src/a.ts"}' },
+  { name: 'rename_file', arguments: '{"path":' },
+  { name: 'move_file', arguments: '{"path":"src/a.ts"}' },
+  { name: '', arguments: '' },
+];
+
+const outcome = (run: () => unknown) => {
+  try {
+    return { result: run() };
+  } catch (error) {
+    return { error: (error as Error).message };
+  }
+};
+
+describe('file tool schemas', () => {
+  it.each(CALLS)('agree on $name $arguments', (call) => {
+    expect(outcome(() => client.parseToolCall(call))).toEqual(outcome(() => server.parseToolCall(call)));
+  });
+
+  it('agree on applying patches', () => {
+    const content = 'const a = 1;\nconst b = 1;\n';
+    const patches: server.PatchFileAction[] = [
+      { type: 'patch', path: 'src/a.ts', hunks: [{ search: 'a = 1', replace: 'a = 2' }] },
+      { type: 'patch', path: 'src/a.ts', hunks: [{ search: ' = 1', replace: ' = 2' }] },
+      { type: 'patch', path: 'src/a.ts', hunks: [{ search: 'c = 1', replace: 'c = 2' }] },
+      { type: 'patch', path: 'src/a.ts', diff: '@@ -2 +2 @@\n-const b = 1;\n+const b = 2;\n' },
+      { type: 'patch', path: 'src/a.ts', diff: '@@ -2 +2 @@\n-const c = 1;\n+const c = 2;\n' },
+    ];
+
+    for (const patch of patches) {
+      expect(outcome(() => client.applyPatchAction(content, patch))).toEqual(
+        outcome(() => server.applyPatchAction(content, patch))
+      );
+    }
+  });
+
+  it('agree on describing actions', () => {
+    const actions: server.MessageFileAction[] = [
+      { type: 'create', path: 'src/a.ts', status: 'applied', hunks: [] },
+      { type: 'rename', path: 'src/a.ts', newPath: 'src/b.ts', status: 'proposed', hunks: [] },
+      { type: 'invalid', path: '', status: 'failed', hunks: [], error: 'move_file: unsupported tool' },
+    ];
+
+    expect(client.describeFileActions(actions)).toBe(server.describeFileActions(actions));
+  });
+});
@@ -0,0 +1,184 @@
+import { z } from "npm:zod@3";
+import { type StructuredPatchHunk, applyPatch } from "npm:diff@8";
+
+/**
+ * Server-side copy of src/lib/file-actions.ts: validates the assistant's
+ * file tool calls and applies patches. Keep the two in sync.
+ */
+
+const pathSchema = z
+  .string()
+  .trim()
+  .min(1, 'path is required')
+  .refine((path) => !path.startsWith('/') && !path.split('/').includes('..'), {
+    message: 'path must be relative to the project root',
+  });
+
+const createFileSchema = z.object({
+  type: z.literal('create'),
+  path: pathSchema,
+  content: z.string(),
+  language: z.string().min(1),
+});
+
+const editFileSchema = z.object({
+  type: z.literal('edit'),
+  path: pathSchema,
+  content: z.string(),
+  language: z.string().min(1).optional(),
+});
+
+const patchFileSchema = z
+  .object({
+    type: z.literal('patch'),
+    path: pathSchema,
+    hunks: z
+      .array(
+        z.object({
+          search: z.string().min(1, 'search text must not be empty'),
+          replace: z.string(),
+        })
+      )
+      .min(1)
+      .optional(),
+    diff: z.string().min(1).optional(),
+  })
+  .refine((action) => Boolean(action.hunks) !== Boolean(action.diff), {
+    message: 'provide either search/replace hunks or a unified diff',
+  });
+
+const deleteFileSchema = z.object({
+  type: z.literal('delete'),
+  path: pathSchema,
+});
+
+const renameFileSchema = z.object({
+  type: z.literal('rename'),
+  path: pathSchema,
+  newPath: pathSchema,
+});
+
+type FileActionSchemas =
+  | typeof createFileSchema
+  | typeof editFileSchema
+  | typeof patchFileSchema
+  | typeof deleteFileSchema
+  | typeof renameFileSchema;
+
+export type FileAction = z.infer<FileActionSchemas>;
+export type PatchFileAction = z.infer<typeof patchFileSchema>;
+
+const TOOLS: Record<string, { type: FileAction['type']; schema: FileActionSchemas }> = {
+  create_file: { type: 'create', schema: createFileSchema },
+  edit_file: { type: 'edit', schema: editFileSchema },
+  patch_file: { type: 'patch', schema: patchFileSchema },
+  delete_file: { type: 'delete', schema: deleteFileSchema },
+  rename_file: { type: 'rename', schema: renameFileSchema },
+};
+
+/** A file action as recorded in `message.file_actions`. */
+export interface MessageFileAction {
+  /** `invalid` for tool calls that failed validation */
+  type: FileAction['type'] | 'invalid';
+  path: string;
+  newPath?: string;
+  language?: string;
+  status: 'proposed' | 'applied' | 'failed';
+  /** Changes against the file as it was when the action was made */
+  hunks: StructuredPatchHunk[];
+  error?: string;
+}
+
+const ACTION_HEADINGS: Record<MessageFileAction['status'], string> = {
+  proposed: 'Proposed changes:',
+  applied: 'Applied changes:',
+  failed: 'Could not apply:',
+};
+
+/**
+ * Plain-text record of a message's file actions, so the model sees what it
+ * changed in earlier turns.
+ */
+export function describeFileActions(actions: MessageFileAction[]): string {
+  return (['proposed', 'applied', 'failed'] as const)
+    .map((status) => {
+      const lines = actions
+        .filter((action) => action.status === status)
+        .map((action) =>
+          action.error
+            ? `- ${action.error}`
+            : action.type === 'rename'
+              ? `- rename ${action.path} → ${action.newPath}`
+              : `- ${action.type} ${action.path}`
+        );
+      return lines.length > 0 ? [ACTION_HEADINGS[status], ...lines].join('\n') : '';
+    })
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+export interface ToolCall {
+  id?: string;
+  name: string;
+  arguments: string;
+}
+
+export class FileActionError extends Error {
+  constructor(
+    public readonly toolName: string,
+    message: string
+  ) {
+    super(`${toolName}: ${message}`);
+    this.name = 'FileActionError';
+  }
+}
+
+export function parseToolCall(call: ToolCall): FileAction {
+  const tool = TOOLS[call.name];
+  if (!tool) {
+    throw new FileActionError(call.name || 'unknown tool', 'unsupported tool');
+  }
+
+  let args: unknown;
+  try {
+    args = JSON.parse(call.arguments || '{}');
+  } catch {
+    throw new FileActionError(call.name, 'arguments are not valid JSON');
+  }
+
+  const result = tool.schema.safeParse({ ...(args as object), type: tool.type });
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || 'arguments'} ${issue.message}`)
+      .join('; ');
+    throw new FileActionError(call.name, issues);
+  }
+
+  return result.data;
+}
+
+/**
+ * Applies a `patch` action to the current file content. Search/replace hunks
+ * are applied in order and each search text must match exactly once; unified
+ * diffs must apply cleanly.
+ */
+export function applyPatchAction(content: string, action: PatchFileAction): string {
+  if (action.diff) {
+    const patched = applyPatch(content, action.diff);
+    if (patched === false) {
+      throw new FileActionError('patch_file', `diff does not apply to ${action.path}`);
+    }
+    return patched;
+  }
+
+  return (action.hunks ?? []).reduce((current, hunk, index) => {
+    const first = current.indexOf(hunk.search);
+    if (first === -1) {
+      throw new FileActionError('patch_file', `hunk ${index + 1} not found in ${action.path}`);
+    }
+    if (current.indexOf(hunk.search, first + 1) !== -1) {
+      throw new FileActionError('patch_file', `hunk ${index + 1} is ambiguous in ${action.path}`);
+    }
+    return current.slice(0, first) + hunk.replace + current.slice(first + hunk.search.length);
+  }, content);
+}
@@ -0,0 +1,146 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  ChatMessage,
+  completeText,
+  loadProjectAISettings,
+  providerFromSettings,
+} from "./ai-provider.ts";
+import { describeFileActions } from "./file-actions.ts";
+import { trackUsage } from "./usage.ts";
+
+/**
+ * Answers pending chat messages. Claims, replies and retries go through the
+ * claim_messages / complete_message / fail_message database functions, so
+ * concurrent invocations never answer the same message twice. Needs a service
+ * role client.
+ */
+
+export interface QueuedMessage {
+  id: string;
+  project_id: string;
+  parent_id: string | null;
+  message_text: string;
+  attempts: number;
+  created_at: string;
+}
+
+export type MessageOutcome =
+  | { id: string; status: 'answered'; replyId: string }
+  | { id: string; status: 'pending' | 'failed'; error: string }
+  | { id: string; status: 'lost' };
+
+const MAX_HISTORY_MESSAGES = 50;
+// Messages scanned for the thread; other branches make this larger than the history
+const MAX_SCANNED_MESSAGES = 500;
+export const MAX_ATTEMPTS = 5;
+
+const SYSTEM_PROMPT = 'You are a helpful AI assistant. Keep your answers clear, concise, and friendly.';
+
+interface ClaimOptions {
+  messageId?: string;
+  projectId?: string;
+  limit?: number;
+}
+
+export async function claimMessages(
+  supabase: SupabaseClient,
+  { messageId, projectId, limit = 10 }: ClaimOptions = {}
+): Promise<QueuedMessage[]> {
+  const { data, error } = await supabase.rpc('claim_messages', {
+    _message_id: messageId ?? null,
+    _project_id: projectId ?? null,
+    _limit: limit,
+  });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+/** The branch of the conversation leading to `message`, oldest first. */
+async function loadThread(supabase: SupabaseClient, message: QueuedMessage): Promise<ChatMessage[]> {
+  const { data, error } = await supabase
+    .from('message')
+    .select('id, parent_id, sender, message_text, status, file_actions')
+    .eq('project_id', message.project_id)
+    .lt('created_at', message.created_at)
+    .order('created_at', { ascending: false })
+    .limit(MAX_SCANNED_MESSAGES);
+
+  if (error) throw error;
+
+  const byId = new Map((data ?? []).map((m) => [m.id, m]));
+  const branch = [];
+  for (
+    let m = message.parent_id ? byId.get(message.parent_id) : undefined;
+    m && branch.length < MAX_HISTORY_MESSAGES;
+    m = m.parent_id ? byId.get(m.parent_id) : undefined
+  ) {
+    branch.unshift(m);
+  }
+
+  const history = branch
+    // Unanswered questions would read as if the assistant ignored them
+    .filter((m) => m.sender === 'ai' || m.status === 'answered' || m.status === 'completed')
+    .map((m): ChatMessage => ({
+      role: m.sender === 'user' ? 'user' : 'assistant',
+      content: [m.message_text, describeFileActions(m.file_actions ?? [])].filter(Boolean).join('\n\n'),
+    }));
+
+  return [...history, { role: 'user', content: message.message_text }];
+}
+
+/** Answers one claimed message, releasing it for a retry if anything fails. */
+export async function processMessage(
+  supabase: SupabaseClient,
+  message: QueuedMessage
+): Promise<MessageOutcome> {
+  try {
+    // Messages record no sender, but only the project's owner can post them
+    const [{ data: project, error: projectError }, settings] = await Promise.all([
+      supabase.from('projects').select('user_id').eq('id', message.project_id).single(),
+      loadProjectAISettings(supabase, message.project_id),
+    ]);
+
+    if (projectError) throw projectError;
+    const instructions = settings?.custom_instructions?.trim();
+    const system = instructions ? `${SYSTEM_PROMPT}\n\n${instructions}` : SYSTEM_PROMPT;
+
+    const provider = trackUsage(providerFromSettings(settings), {
+      projectId: message.project_id,
+      userId: project.user_id,
+      source: 'message',
+    });
+    const reply = await completeText(provider, {
+      messages: [{ role: 'system', content: system }, ...(await loadThread(supabase, message))],
+    });
+
+    if (!reply.trim()) throw new Error('Empty AI response');
+
+    const { data: replyId, error } = await supabase.rpc('complete_message', {
+      _message_id: message.id,
+      _attempt: message.attempts,
+      _reply_text: reply,
+    });
+
+    if (error) throw error;
+    // Our lease expired and another worker took over; its answer wins
+    if (!replyId) return { id: message.id, status: 'lost' };
+
+    return { id: message.id, status: 'answered', replyId };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    console.error(`Failed to process message ${message.id} (attempt ${message.attempts}):`, err);
+
+    const { data: status, error } = await supabase.rpc('fail_message', {
+      _message_id: message.id,
+      _attempt: message.attempts,
+      _error: errorMessage,
+      _max_attempts: MAX_ATTEMPTS,
+    });
+
+    if (error) throw error;
+    if (!status) return { id: message.id, status: 'lost' };
+
+    return { id: message.id, status, error: errorMessage };
+  }
+}
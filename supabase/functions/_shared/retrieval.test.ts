@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest';
+import type { Embedder } from './embeddings.ts';
+import { chunkFile, retrieveChunks, syncFileChunks } from './retrieval.ts';
+
+type SupabaseClient = Parameters<typeof syncFileChunks>[0];
+type Row = Record<string, unknown>;
+
+const PROJECT_ID = 'project-1';
+
+// Counts a few keywords, so similarity is easy to reason about and text
+// without any of them embeds to the zero vector
+const KEYWORDS = ['auth', 'session', 'chart', 'button'];
+
+const createKeywordEmbedder = () => {
+  const calls: string[][] = [];
+  const embedder: Embedder = {
+    id: 'keywords',
+    embed: async (texts) => {
+      calls.push(texts);
+      return texts.map((text) => KEYWORDS.map((word) => text.split(word).length - 1));
+    },
+  };
+  return { embedder, calls };
+};
+
+const cosine = (a: number[], b: number[]) => {
+  const dot = a.reduce((sum, value, i) => sum + value * b[i], 0);
+  return dot / (Math.hypot(...a) * Math.hypot(...b));
+};
+
+/** The file_chunks table and match_file_chunks function, in memory. */
+const createDatabase = () => {
+  let chunks: Row[] = [];
+  const rpcCalls: Row[] = [];
+
+  const query = (action: 'select' | 'delete') => {
+    const filters: [string, unknown][] = [];
+    const builder = {
+      eq(column: string, value: unknown) {
+        filters.push([column, value]);
+        return builder;
+      },
+      then(resolve: (result: { data: Row[]; error: null }) => void) {
+        const matches = chunks.filter((row) => filters.every(([column, value]) => row[column] === value));
+        if (action === 'delete') chunks = chunks.filter((row) => !matches.includes(row));
+        resolve({ data: matches, error: null });
+      },
+    };
+    return builder;
+  };
+
+  const client = {
+    from: () => ({
+      select: () => query('select'),
+      delete: () => query('delete'),
+      insert: async (rows: Row[]) => {
+        chunks.push(...rows);
+        return { error: null };
+      },
+    }),
+    rpc: async (_name: string, args: Row) => {
+      rpcCalls.push(args);
+      const embedding = JSON.parse(args._query_embedding as string);
+      const data = chunks
+        .filter((row) => row.project_id === args._project_id && row.embedder === args._embedder)
+        .map((row) => ({
+          path: row.path,
+          start_line: row.start_line,
+          end_line: row.end_line,
+          content: row.content,
+          similarity: cosine(JSON.parse(row.embedding as string), embedding),
+        }))
+        .filter((row) => !Number.isNaN(row.similarity))
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, args._match_count as number);
+      return { data, error: null };
+    },
+  };
+
+  return {
+    supabase: client as unknown as SupabaseClient,
+    rpcCalls,
+    chunks: () => chunks,
+    indexedPaths: () => [...new Set(chunks.map((row) => row.path))],
+  };
+};
+
+const file = (id: string, content: string) => ({ id, path: `src/${id}.ts`, content });
+// One line per chunk step, so a file of n * 50 + 10 lines has n chunks
+const fileWithChunks = (id: string, chunkCount: number) =>
+  file(id, Array.from({ length: chunkCount * 50 + 10 }, (_, i) => `const line${i} = ${i};`).join('\n'));
+
+describe('chunkFile', () => {
+  it('splits files into overlapping line ranges', () => {
+    const content = Array.from({ length: 120 }, (_, i) => `line ${i + 1}`).join('\n');
+
+    expect(chunkFile(content).map(({ startLine, endLine }) => [startLine, endLine])).toEqual([
+      [1, 60],
+      [51, 110],
+      [101, 120],
+    ]);
+  });
+
+  it('skips empty files', () => {
+    expect(chunkFile('  \n\n')).toEqual([]);
+  });
+});
+
+describe('syncFileChunks', () => {
+  it('embeds files that are not indexed yet', async () => {
+    const db = createDatabase();
+    const { embedder, calls } = createKeywordEmbedder();
+
+    await syncFileChunks(db.supabase, embedder, PROJECT_ID, [file('auth', 'export const auth = 1;')]);
+    await syncFileChunks(db.supabase, embedder, PROJECT_ID, [
+      file('auth', 'export const auth = 1;'),
+      file('chart', 'export const chart = 2;'),
+    ]);
+
+    expect(calls).toEqual([['src/auth.ts\nexport const auth = 1;'], ['src/chart.ts\nexport const chart = 2;']]);
+    expect(db.chunks()).toMatchObject([
+      { file_id: 'auth', chunk_index: 0, start_line: 1, end_line: 1, embedder: 'keywords' },
+      { file_id: 'chart', chunk_index: 0, start_line: 1, end_line: 1, embedder: 'keywords' },
+    ]);
+  });
+
+  it('indexes smaller files past one that does not fit this sync', async () => {
+    const db = createDatabase();
+    const { embedder } = createKeywordEmbedder();
+    const files = [fileWithChunks('first', 300), fileWithChunks('second', 300), file('small', 'const auth = 1;')];
+
+    await syncFileChunks(db.supabase, embedder, PROJECT_ID, files);
+    expect(db.indexedPaths()).toEqual(['src/first.ts', 'src/small.ts']);
+
+    await syncFileChunks(db.supabase, embedder, PROJECT_ID, files);
+    expect(db.indexedPaths()).toEqual(['src/first.ts', 'src/small.ts', 'src/second.ts']);
+  });
+
+  it('indexes a file bigger than one sync up to the limit', async () => {
+    const db = createDatabase();
+    const { embedder } = createKeywordEmbedder();
+
+    await syncFileChunks(db.supabase, embedder, PROJECT_ID, [fileWithChunks('huge', 600)]);
+
+    expect(db.chunks()).toHaveLength(512);
+  });
+});
+
+describe('retrieveChunks', () => {
+  const indexedDatabase = async () => {
+    const db = createDatabase();
+    const { embedder } = createKeywordEmbedder();
+    await syncFileChunks(db.supabase, embedder, PROJECT_ID, [
+      file('auth', 'export const auth = () => session;'),
+      file('chart', 'export const chart = () => null;'),
+      file('braces', '}\n}\n}'),
+    ]);
+    return { db, embedder };
+  };
+
+  it('returns the most similar chunks first', async () => {
+    const { db, embedder } = await indexedDatabase();
+
+    const chunks = await retrieveChunks(db.supabase, embedder, PROJECT_ID, 'where is the auth session kept?');
+
+    // The braces-only chunk embeds to the zero vector and never matches
+    expect(chunks.map((chunk) => chunk.path)).toEqual(['src/auth.ts', 'src/chart.ts']);
+    expect(chunks[0].similarity).toBeGreaterThan(chunks[1].similarity);
+  });
+
+  it('skips the search for a query that embeds to the zero vector', async () => {
+    const { db, embedder } = await indexedDatabase();
+
+    expect(await retrieveChunks(db.supabase, embedder, PROJECT_ID, 'what does this do?')).toEqual([]);
+    expect(db.rpcCalls).toEqual([]);
+  });
+});
@@ -0,0 +1,150 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { Embedder } from "./embeddings.ts";
+
+export interface IndexedFile {
+  id: string;
+  path: string;
+  content: string | null;
+}
+
+export interface RetrievedChunk {
+  path: string;
+  start_line: number;
+  end_line: number;
+  content: string;
+  similarity: number;
+}
+
+interface Chunk {
+  index: number;
+  startLine: number;
+  endLine: number;
+  content: string;
+}
+
+const CHUNK_LINES = 60;
+const CHUNK_OVERLAP_LINES = 10;
+const MAX_CHUNK_CHARS = 3000;
+const EMBED_BATCH_SIZE = 64;
+// Big projects are indexed over several requests rather than stalling one
+const MAX_CHUNKS_PER_SYNC = 512;
+
+/** Splits a file into overlapping line ranges; line numbers are 1-based. */
+export function chunkFile(content: string): Chunk[] {
+  const lines = content.split('\n');
+  const chunks: Chunk[] = [];
+  if (content.trim() === '') return chunks;
+
+  let start = 0;
+  while (start < lines.length) {
+    let end = start;
+    let size = 0;
+    while (end < lines.length && end - start < CHUNK_LINES && size + lines[end].length <= MAX_CHUNK_CHARS) {
+      size += lines[end].length + 1;
+      end++;
+    }
+    // A single line longer than the limit still gets a (clipped) chunk
+    if (end === start) end = start + 1;
+
+    chunks.push({
+      index: chunks.length,
+      startLine: start + 1,
+      endLine: end,
+      content: lines.slice(start, end).join('\n').slice(0, MAX_CHUNK_CHARS),
+    });
+
+    if (end >= lines.length) break;
+    start = Math.max(start + 1, end - CHUNK_OVERLAP_LINES);
+  }
+
+  return chunks;
+}
+
+/**
+ * Embeds files that have no chunks for this embedder yet. The files table
+ * trigger drops a file's chunks whenever it changes, so this picks up edits.
+ */
+export async function syncFileChunks(
+  supabase: SupabaseClient,
+  embedder: Embedder,
+  projectId: string,
+  files: IndexedFile[]
+) {
+  const { data: indexed, error: indexedError } = await supabase
+    .from('file_chunks')
+    .select('file_id')
+    .eq('project_id', projectId)
+    .eq('embedder', embedder.id)
+    .eq('chunk_index', 0);
+
+  if (indexedError) throw indexedError;
+
+  const indexedIds = new Set((indexed ?? []).map((row) => row.file_id));
+  const pending = files
+    .filter((file) => !indexedIds.has(file.id))
+    // A file too big for any one sync is indexed up to the limit
+    .map((file) => ({ file, chunks: chunkFile(file.content ?? '').slice(0, MAX_CHUNKS_PER_SYNC) }))
+    .filter(({ chunks }) => chunks.length > 0);
+
+  let budget = MAX_CHUNKS_PER_SYNC;
+  for (const { file, chunks } of pending) {
+    // Files that do not fit wait for the next sync; smaller ones after them still go
+    if (chunks.length > budget) continue;
+    budget -= chunks.length;
+
+    const embeddings: number[][] = [];
+    for (let i = 0; i < chunks.length; i += EMBED_BATCH_SIZE) {
+      const batch = chunks.slice(i, i + EMBED_BATCH_SIZE);
+      embeddings.push(...(await embedder.embed(batch.map((chunk) => `${file.path}\n${chunk.content}`))));
+    }
+
+    // Clear leftovers from an interrupted sync before writing the new set
+    const { error: deleteError } = await supabase
+      .from('file_chunks')
+      .delete()
+      .eq('file_id', file.id)
+      .eq('embedder', embedder.id);
+
+    if (deleteError) throw deleteError;
+
+    const { error: insertError } = await supabase.from('file_chunks').insert(
+      chunks.map((chunk, i) => ({
+        file_id: file.id,
+        project_id: projectId,
+        path: file.path,
+        chunk_index: chunk.index,
+        start_line: chunk.startLine,
+        end_line: chunk.endLine,
+        content: chunk.content,
+        embedder: embedder.id,
+        embedding: JSON.stringify(embeddings[i]),
+      }))
+    );
+
+    if (insertError) throw insertError;
+  }
+}
+
+/** The chunks most similar to `query`, best match first. */
+export async function retrieveChunks(
+  supabase: SupabaseClient,
+  embedder: Embedder,
+  projectId: string,
+  query: string,
+  count = 8
+): Promise<RetrievedChunk[]> {
+  const [embedding] = await embedder.embed([query]);
+  // Cosine similarity is undefined for a zero vector, e.g. a query with no
+  // words the local embedder can hash
+  if (embedding.every((value) => value === 0)) return [];
+
+  const { data, error } = await supabase.rpc('match_file_chunks', {
+    _project_id: projectId,
+    _embedder: embedder.id,
+    _query_embedding: JSON.stringify(embedding),
+    _match_count: count,
+  });
+
+  if (error) throw error;
+  return data ?? [];
+}
@@ -0,0 +1,158 @@
+import { SupabaseClient, createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  ChatRequest,
+  ModelProvider,
+  ProviderConfig,
+  ProviderError,
+  TokenUsage,
+  loadProjectAISettings,
+} from "./ai-provider.ts";
+import { estimateTokens } from "./context.ts";
+
+/**
+ * Metering for model calls. Each call is checked against the monthly token
+ * quotas before it reaches the provider and recorded in ai_usage once it
+ * ends. Both go through a service role client, since users can neither read
+ * other users' totals nor write usage rows.
+ */
+
+export type UsageSource = 'chat' | 'job' | 'message';
+
+export interface UsageContext {
+  projectId: string;
+  /** Who the call is made for and billed to */
+  userId: string;
+  source: UsageSource;
+}
+
+/** A monthly quota is used up; answered with 402 like depleted credits. */
+export class QuotaExceededError extends ProviderError {
+  constructor(message: string) {
+    super(402, message);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+// USD per million tokens, for the models offered in the editor. Other models
+// are recorded without a cost; local and mock models are free.
+const PRICES: Record<string, { prompt: number; completion: number }> = {
+  'google/gemini-2.5-flash': { prompt: 0.3, completion: 2.5 },
+  'google/gemini-2.5-pro': { prompt: 1.25, completion: 10 },
+  'openai/gpt-5-mini': { prompt: 0.25, completion: 2 },
+  'openai/gpt-5': { prompt: 1.25, completion: 10 },
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'gpt-4.1-mini': { prompt: 0.4, completion: 1.6 },
+  'gpt-4.1': { prompt: 2, completion: 8 },
+  'gemini-2.5-flash': { prompt: 0.3, completion: 2.5 },
+  'gemini-2.5-pro': { prompt: 1.25, completion: 10 },
+  'claude-3-5-haiku-latest': { prompt: 0.8, completion: 4 },
+  'claude-3-7-sonnet-latest': { prompt: 3, completion: 15 },
+};
+
+const FREE_PROVIDERS = ['ollama', 'mock'];
+
+export function estimateCost({ provider, model }: ProviderConfig, usage: TokenUsage): number | null {
+  if (FREE_PROVIDERS.includes(provider)) return 0;
+
+  const price = PRICES[model];
+  if (!price) return null;
+  return (usage.promptTokens * price.prompt + usage.completionTokens * price.completion) / 1_000_000;
+}
+
+// For providers that report no usage; images are not counted
+const estimateUsage = (request: ChatRequest, output: string): TokenUsage => ({
+  promptTokens: request.messages.reduce(
+    (sum, m) =>
+      sum +
+      estimateTokens(m.content) +
+      (m.parts ?? []).reduce((partSum, part) => partSum + (part.type === 'text' ? estimateTokens(part.text) : 0), 0),
+    estimateTokens(JSON.stringify(request.tools ?? []))
+  ),
+  completionTokens: estimateTokens(output),
+});
+
+let serviceClient: SupabaseClient | null = null;
+const service = () =>
+  (serviceClient ??= createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!));
+
+/** Throws when the call would go over the project's or the user's monthly quota. */
+async function checkQuotas(supabase: SupabaseClient, { projectId, userId }: UsageContext): Promise<void> {
+  const settings = await loadProjectAISettings(supabase, projectId);
+
+  const projectQuota = settings?.monthly_token_quota ?? null;
+  const userQuota = Number(Deno.env.get('AI_MONTHLY_TOKEN_QUOTA')) || null;
+  if (!projectQuota && !userQuota) return;
+
+  const { data, error } = await supabase.rpc('ai_usage_this_month', {
+    _project_id: projectId,
+    _user_id: userId,
+  });
+
+  if (error) throw error;
+  const used = data?.[0] ?? { project_tokens: 0, user_tokens: 0 };
+
+  if (projectQuota && used.project_tokens >= projectQuota) {
+    throw new QuotaExceededError(
+      `This project has used its monthly quota of ${projectQuota.toLocaleString('en-US')} tokens.`
+    );
+  }
+  if (userQuota && used.user_tokens >= userQuota) {
+    throw new QuotaExceededError(
+      `You have used your monthly quota of ${userQuota.toLocaleString('en-US')} tokens.`
+    );
+  }
+}
+
+/**
+ * Wraps a provider so every request is checked against the quotas first and
+ * recorded when its stream ends, including streams that fail or are aborted
+ * part way, since those tokens are billed too.
+ */
+export function trackUsage(provider: ModelProvider, context: UsageContext): ModelProvider {
+  return {
+    config: provider.config,
+    supportsImages: provider.supportsImages,
+    async stream(request) {
+      const supabase = service();
+      await checkQuotas(supabase, context);
+
+      const startedAt = Date.now();
+      let reported: TokenUsage | null = null;
+      const events = await provider.stream({
+        ...request,
+        onUsage: (usage) => {
+          reported = usage;
+          request.onUsage?.(usage);
+        },
+      });
+
+      return (async function* () {
+        let output = '';
+        try {
+          for await (const event of events) {
+            output += event.type === 'text' ? event.delta : event.argumentsDelta;
+            yield event;
+          }
+        } finally {
+          const usage = reported ?? estimateUsage(request, output);
+          const { error } = await supabase.from('ai_usage').insert({
+            project_id: context.projectId,
+            user_id: context.userId,
+            source: context.source,
+            provider: provider.config.provider,
+            model: provider.config.model,
+            prompt_tokens: usage.promptTokens,
+            completion_tokens: usage.completionTokens,
+            reported: reported !== null,
+            latency_ms: Date.now() - startedAt,
+            cost_usd: estimateCost(provider.config, usage),
+          });
+
+          // The reply already went out; losing a usage row beats failing the turn
+          if (error) console.error('Could not record AI usage:', error);
+        }
+      })();
+    },
+  };
+}
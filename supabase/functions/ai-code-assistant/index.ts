@@ -1,88 +1,89 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ChatEvent, errorResponse } from "../_shared/ai-provider.ts";
+import { prepareAssistantTurn } from "../_shared/assistant-turn.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const errorJson = (status: number, error: string) =>
+  new Response(JSON.stringify({ error }), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+/**
+ * Re-emits the provider's events as SSE:
+ *   { type: 'text', delta }                                 assistant prose
+ *   { type: 'tool_call', index, id?, name?, argumentsDelta } tool call fragment
+ * followed by `data: [DONE]`. When the client goes away (e.g. the user presses
+ * Stop) the upstream request is aborted too.
+ */
+const toTypedEvents = (events: AsyncIterable<ChatEvent>, upstream: AbortController) => {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: unknown) =>
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+
+      try {
+        for await (const event of events) {
+          send(event);
+        }
+      } catch (error) {
+        if (upstream.signal.aborted) return;
+        console.error('Stream error in ai-code-assistant:', error);
+        send({ type: 'error', error: 'AI stream interrupted' });
+      }
+
+      if (upstream.signal.aborted) return;
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      controller.close();
+    },
+    cancel() {
+      upstream.abort();
+    },
+  });
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { messages, projectId } = await req.json();
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-
-    if (!LOVABLE_API_KEY) {
-      throw new Error('LOVABLE_API_KEY is not configured');
-    }
+    const { messages, projectId, selectedPath } = await req.json();
 
     console.log('Processing AI request for project:', projectId);
 
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          {
-            role: 'system',
-            content: `You are an AI coding assistant. Help users build their projects by:
-1. Understanding their requirements clearly
-2. Creating or editing files as needed
-3. Providing clear explanations of changes
-4. Following best practices
+    // Query as the caller so row level security only exposes their own projects
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    );
 
-When creating or editing files, respond in this JSON format:
-{
-  "message": "Your explanation here",
-  "actions": [
-    {
-      "type": "create" or "edit",
-      "path": "file/path.ext",
-      "content": "file content",
-      "language": "javascript/typescript/html/css/etc"
-    }
-  ]
-}
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return errorJson(401, 'Not signed in');
 
-If just chatting or asking questions, respond normally without the JSON format.`
-          },
-          ...messages
-        ],
-        stream: true,
-      }),
-    });
+    const { error: projectError } = await supabase.from('projects').select('id').eq('id', projectId).single();
+    // Fails for projects the caller cannot see, before any of their files are read
+    if (projectError) return errorJson(404, 'Project not found');
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }),
-          {
-            status: 429,
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          }
-        );
-      }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: 'AI credits depleted. Please add credits to continue.' }),
-          {
-            status: 402,
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          }
-        );
-      }
-      const errorText = await response.text();
-      console.error('AI gateway error:', response.status, errorText);
-      throw new Error('AI gateway error');
-    }
+    const { provider, request } = await prepareAssistantTurn(supabase, {
+      projectId,
+      messages,
+      selectedPath,
+      userId: user.id,
+      source: 'chat',
+    });
+    const upstream = new AbortController();
+    const events = await provider.stream({ ...request, signal: upstream.signal });
 
-    return new Response(response.body, {
+    return new Response(toTypedEvents(events, upstream), {
       headers: {
         ...corsHeaders,
         'Content-Type': 'text/event-stream',
@@ -90,12 +91,6 @@ If just chatting or asking questions, respond normally without the JSON format.`
     });
   } catch (error) {
     console.error('Error in ai-code-assistant:', error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
+    return errorResponse(error, corsHeaders);
   }
 });
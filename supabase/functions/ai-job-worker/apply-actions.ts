@@ -0,0 +1,111 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { structuredPatch } from "npm:diff@8";
+import { FileAction, applyPatchAction } from "../_shared/file-actions.ts";
+
+const computeHunks = (oldContent: string, newContent: string) =>
+  structuredPatch('a', 'b', oldContent, newContent, '', '', { context: 3 }).hunks;
+
+/** Snapshot of the project before a turn's changes, restorable from the editor. */
+export async function createTurnCheckpoint(
+  supabase: SupabaseClient,
+  projectId: string,
+  messageId: string,
+  createdBy: string | null
+) {
+  const { data: checkpoint, error } = await supabase
+    .from('checkpoints')
+    .insert({
+      project_id: projectId,
+      name: 'Before AI changes',
+      kind: 'auto',
+      message_id: messageId,
+      created_by: createdBy,
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+
+  const { data: files, error: filesError } = await supabase
+    .from('files')
+    .select('path, content, language')
+    .eq('project_id', projectId);
+
+  if (filesError) throw filesError;
+  if (!files?.length) return;
+
+  const { error: snapshotError } = await supabase
+    .from('checkpoint_files')
+    .insert(files.map((file) => ({ ...file, checkpoint_id: checkpoint.id })));
+
+  if (snapshotError) throw snapshotError;
+}
+
+const findFile = async (supabase: SupabaseClient, projectId: string, path: string) => {
+  const { data, error } = await supabase
+    .from('files')
+    .select('id, content, language')
+    .eq('project_id', projectId)
+    .eq('path', path)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Writes one action to `files`, attributed to the assistant message, and
+ * returns its diff.
+ */
+export async function applyFileAction(
+  supabase: SupabaseClient,
+  projectId: string,
+  action: FileAction,
+  messageId: string
+) {
+  const stored = await findFile(supabase, projectId, action.path);
+  const author = { last_author: 'ai', last_message_id: messageId };
+
+  if (action.type === 'create' && !stored) {
+    const { error } = await supabase.from('files').insert({
+      project_id: projectId,
+      path: action.path,
+      content: action.content,
+      language: action.language,
+      ...author,
+    });
+    if (error) throw error;
+    return computeHunks('', action.content);
+  }
+
+  if (!stored) throw new Error(`${action.path} does not exist`);
+
+  if (action.type === 'delete') {
+    const { error } = await supabase.from('files').delete().eq('id', stored.id);
+    if (error) throw error;
+    return computeHunks(stored.content ?? '', '');
+  }
+
+  if (action.type === 'rename') {
+    if (await findFile(supabase, projectId, action.newPath)) {
+      throw new Error(`${action.newPath} already exists`);
+    }
+    const { error } = await supabase
+      .from('files')
+      .update({ path: action.newPath, ...author })
+      .eq('id', stored.id);
+    if (error) throw error;
+    return [];
+  }
+
+  const content =
+    action.type === 'patch' ? applyPatchAction(stored.content ?? '', action) : action.content;
+  const language = action.type === 'patch' ? stored.language : action.language ?? stored.language;
+
+  const { error } = await supabase
+    .from('files')
+    .update({ content, language, ...author })
+    .eq('id', stored.id);
+  if (error) throw error;
+  return computeHunks(stored.content ?? '', content);
+}
@@ -0,0 +1,244 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { SupabaseClient, createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { errorResponse } from "../_shared/ai-provider.ts";
+import { AttachedMessage } from "../_shared/attachments.ts";
+import { prepareAssistantTurn } from "../_shared/assistant-turn.ts";
+import {
+  FileAction,
+  FileActionError,
+  MessageFileAction,
+  ToolCall,
+  parseToolCall,
+} from "../_shared/file-actions.ts";
+import { applyFileAction, createTurnCheckpoint } from "./apply-actions.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const LEASE_SECONDS = 120;
+// Stop claiming new jobs well before the edge function time limit
+const TIME_BUDGET_MS = 100_000;
+// How often streamed output is written to the job row (and its lease renewed)
+const FLUSH_INTERVAL_MS = 500;
+
+interface Job {
+  id: string;
+  project_id: string;
+  kind: 'ai_turn';
+  input: {
+    messages: AttachedMessage[];
+    selectedPath?: string | null;
+    /** The user message being answered; the reply is saved below it */
+    parentId?: string | null;
+  };
+  message_id: string | null;
+  attempts: number;
+  created_by: string | null;
+}
+
+/** Job was cancelled, or its lease expired and another worker took it over. */
+class JobReleased extends Error {}
+
+/**
+ * Updates the job only while this worker still holds it; every update also
+ * renews the lease.
+ */
+const jobUpdater = (supabase: SupabaseClient, job: Job) => async (fields: Record<string, unknown>) => {
+  const { data, error } = await supabase
+    .from('jobs')
+    .update({ ...fields, locked_until: new Date(Date.now() + LEASE_SECONDS * 1000).toISOString() })
+    .eq('id', job.id)
+    .eq('status', 'running')
+    .eq('attempts', job.attempts)
+    .select('id');
+
+  if (error) throw error;
+  if (!data?.length) throw new JobReleased();
+};
+
+async function runAITurn(supabase: SupabaseClient, job: Job) {
+  const update = jobUpdater(supabase, job);
+  // The reply is saved with the service role, so its id is always made here;
+  // a retry keeps the one from the earlier attempt. Written right away so the
+  // editor can show the streaming reply under it.
+  // Jobs are billed to whoever queued them; their row is gone with their account
+  if (!job.created_by) throw new Error('The user who queued this job no longer exists');
+
+  // The input is whatever the user inserted, and the reply is saved with the
+  // service role, so it may only go below a message in the job's own project
+  const parentId = job.input.parentId ?? null;
+  if (parentId) {
+    const { data: parent, error } = await supabase
+      .from('message')
+      .select('project_id')
+      .eq('id', parentId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (parent?.project_id !== job.project_id) throw new Error('The message being answered is not in this project');
+  }
+
+  const messageId = job.message_id ?? crypto.randomUUID();
+  await update({ message_id: messageId });
+  const { provider, request } = await prepareAssistantTurn(supabase, {
+    projectId: job.project_id,
+    messages: job.input.messages,
+    selectedPath: job.input.selectedPath ?? undefined,
+    userId: job.created_by,
+    source: 'job',
+    applyDirectly: true,
+  });
+
+  let text = '';
+  const toolCalls: ToolCall[] = [];
+  let lastFlush = Date.now();
+
+  for await (const event of await provider.stream(request)) {
+    if (event.type === 'text') {
+      text += event.delta;
+    } else {
+      // Tool call names and arguments arrive in fragments keyed by index
+      const call = (toolCalls[event.index] ??= { name: '', arguments: '' });
+      if (event.id) call.id = event.id;
+      if (event.name) call.name += event.name;
+      call.arguments += event.argumentsDelta;
+    }
+
+    if (Date.now() - lastFlush >= FLUSH_INTERVAL_MS) {
+      await update({ output: text });
+      lastFlush = Date.now();
+    }
+  }
+
+  const actions: FileAction[] = [];
+  const results: MessageFileAction[] = [];
+  for (const call of toolCalls.filter(Boolean)) {
+    try {
+      actions.push(parseToolCall(call));
+    } catch (error) {
+      results.push({
+        type: 'invalid',
+        path: call.name,
+        status: 'failed',
+        hunks: [],
+        error: error instanceof FileActionError ? error.message : String(error),
+      });
+    }
+  }
+
+  if (!text && results.length === 0 && actions.length === 0) {
+    throw new Error('Empty AI response');
+  }
+
+  // Last chance to stop before anything is written
+  await update({ output: text });
+
+  // Saved before the files so they can point at it; the actions are added below
+  const { error: messageError } = await supabase.from('message').upsert({
+    id: messageId,
+    project_id: job.project_id,
+    parent_id: parentId,
+    sender: 'ai',
+    message_text: text,
+    status: 'completed',
+  });
+  if (messageError) throw messageError;
+
+  if (actions.length > 0) {
+    await createTurnCheckpoint(supabase, job.project_id, messageId, job.created_by);
+  }
+
+  for (const action of actions) {
+    const result: MessageFileAction = {
+      type: action.type,
+      path: action.path,
+      ...(action.type === 'rename' ? { newPath: action.newPath } : {}),
+      ...(action.type === 'create' || action.type === 'edit' ? { language: action.language } : {}),
+      status: 'applied',
+      hunks: [],
+    };
+    try {
+      result.hunks = await applyFileAction(supabase, job.project_id, action, messageId);
+    } catch (error) {
+      result.status = 'failed';
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+    results.push(result);
+  }
+
+  if (results.length > 0) {
+    const { error } = await supabase
+      .from('message')
+      .update({ file_actions: results })
+      .eq('id', messageId);
+    if (error) throw error;
+  }
+
+  await update({
+    status: 'succeeded',
+    output: text,
+    actions: results,
+    locked_until: null,
+    finished_at: new Date().toISOString(),
+  });
+}
+
+async function runJob(supabase: SupabaseClient, job: Job) {
+  try {
+    await runAITurn(supabase, job);
+  } catch (error) {
+    if (error instanceof JobReleased) {
+      console.log(`Job ${job.id} was released, stopping`);
+      return;
+    }
+
+    console.error(`Job ${job.id} failed:`, error);
+    await jobUpdater(supabase, job)({
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      finished_at: new Date().toISOString(),
+    }).catch(() => {});
+  }
+}
+
+// Runs queued jobs until the queue is empty or the time budget is spent.
+// Invoked by the jobs insert trigger and a pg_cron sweep; concurrent
+// invocations are safe because each job is claimed by one worker only.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const startedAt = Date.now();
+    let processed = 0;
+
+    while (Date.now() - startedAt < TIME_BUDGET_MS) {
+      const { data, error } = await supabase.rpc('claim_jobs', {
+        _limit: 1,
+        _lease_seconds: LEASE_SECONDS,
+      });
+
+      if (error) throw error;
+      const [job] = (data ?? []) as Job[];
+      if (!job) break;
+
+      await runJob(supabase, job);
+      processed++;
+    }
+
+    return new Response(JSON.stringify({ processed }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in ai-job-worker:', error);
+    return errorResponse(error, corsHeaders);
+  }
+});
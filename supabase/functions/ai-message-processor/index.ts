@@ -1,5 +1,7 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
-import { createClient } from "npm:@supabase/supabase-js@2.38.5";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { errorResponse } from "../_shared/ai-provider.ts";
+import { MessageOutcome, claimMessages, processMessage } from "../_shared/message-queue.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,9 +9,12 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
 };
 
-const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY") || "";
-const GEMINI_API_URL = "https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-preview-05-20:generateContent?key=" + GEMINI_API_KEY;
+// Stop claiming new messages well before the edge function time limit
+const TIME_BUDGET_MS = 100_000;
 
+// Drains pending messages, optionally for one project. Safe to run on a
+// schedule and concurrently: each message is claimed by one invocation only,
+// and failed ones come back after their backoff.
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { status: 200, headers: corsHeaders });
@@ -21,79 +26,34 @@ Deno.serve(async (req: Request) => {
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
     );
 
-    const { data: pendingMessages, error: fetchError } = await supabase
-      .from("message")
-      .select("*")
-      .eq("status", "pending")
-      .order("created_at", { ascending: true });
+    // Scheduled invocations send no body
+    const { projectId } = await req.json().catch(() => ({}));
+    const startedAt = Date.now();
+    const outcomes: MessageOutcome[] = [];
 
-    if (fetchError) {
-      throw new Error(`Failed to fetch messages: ${fetchError.message}`);
-    }
+    while (Date.now() - startedAt < TIME_BUDGET_MS) {
+      // One at a time, so no claimed message waits out its lease in a batch
+      const [message] = await claimMessages(supabase, { projectId, limit: 1 });
+      if (!message) break;
 
-    if (!pendingMessages || pendingMessages.length === 0) {
-      return new Response(
-        JSON.stringify({ message: "No pending messages", processed: 0 }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      outcomes.push(await processMessage(supabase, message));
     }
 
-    const processed = [];
-
-    for (const msg of pendingMessages) {
-      try {
-        const payload = {
-          contents: [{ role: "user", parts: [{ text: msg.message_text }] }],
-          generationConfig: { temperature: 0.7 },
-        };
-
-        const response = await fetch(GEMINI_API_URL, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(payload),
-        });
-
-        if (!response.ok) {
-          throw new Error(`Gemini API error: ${response.status}`);
-        }
-
-        const result = await response.json();
-        const aiReply = result.candidates?.[0]?.content?.parts?.[0]?.text;
-
-        if (!aiReply) {
-          throw new Error("Empty AI response");
-        }
-
-        const { error: insertError } = await supabase.from("message").insert([{
-          sender: "ai",
-          message_text: aiReply,
-          status: "answered",
-        }]);
-
-        if (insertError) throw insertError;
-
-        const { error: updateError } = await supabase
-          .from("message")
-          .update({ status: "answered" })
-          .eq("id", msg.id);
-
-        if (updateError) throw updateError;
-
-        processed.push(msg.id);
-      } catch (err) {
-        console.error(`Failed to process message ${msg.id}:`, err);
-      }
-    }
+    const count = (status: MessageOutcome["status"]) =>
+      outcomes.filter((outcome) => outcome.status === status).length;
 
     return new Response(
-      JSON.stringify({ message: "Processing complete", processed: processed.length }),
+      JSON.stringify({
+        message: outcomes.length === 0 ? "No pending messages" : "Processing complete",
+        processed: count("answered"),
+        retrying: count("pending"),
+        failed: count("failed"),
+        outcomes,
+      }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error) {
     console.error("Error:", error);
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return errorResponse(error, corsHeaders);
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,3 @@
+-- Chat history is loaded per project in creation order
+CREATE INDEX IF NOT EXISTS idx_message_project_created_at
+ON public.message (project_id, created_at);
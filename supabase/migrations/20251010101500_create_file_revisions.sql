@@ -0,0 +1,57 @@
+-- Who made the latest change to a file, and which chat message caused it.
+-- Writers set these alongside content; the revision trigger copies them.
+ALTER TABLE public.files
+ADD COLUMN last_author TEXT NOT NULL DEFAULT 'user' CHECK (last_author IN ('user', 'ai')),
+ADD COLUMN last_message_id UUID REFERENCES public.message(id) ON DELETE SET NULL;
+
+-- Create file_revisions table
+CREATE TABLE public.file_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_id UUID REFERENCES public.files(id) ON DELETE CASCADE NOT NULL,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  path TEXT NOT NULL,
+  content TEXT,
+  author TEXT NOT NULL CHECK (author IN ('user', 'ai')),
+  message_id UUID REFERENCES public.message(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_file_revisions_file_created_at
+ON public.file_revisions (file_id, created_at DESC);
+
+ALTER TABLE public.file_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are only written by the trigger below
+CREATE POLICY "Users can view revisions in their projects"
+ON public.file_revisions
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = file_revisions.project_id
+      AND projects.user_id = auth.uid()
+  )
+);
+
+-- Record a revision whenever a file is created or its content changes
+CREATE OR REPLACE FUNCTION public.handle_file_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.content IS DISTINCT FROM OLD.content THEN
+    INSERT INTO public.file_revisions (file_id, project_id, path, content, author, message_id, created_by)
+    VALUES (NEW.id, NEW.project_id, NEW.path, NEW.content, NEW.last_author, NEW.last_message_id, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER files_record_revision
+  AFTER INSERT OR UPDATE ON public.files
+  FOR EACH ROW EXECUTE FUNCTION public.handle_file_revision();
@@ -0,0 +1,137 @@
+-- Create checkpoints table
+CREATE TABLE public.checkpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'manual' CHECK (kind IN ('manual', 'auto')),
+  message_id UUID REFERENCES public.message(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_checkpoints_project_created_at
+ON public.checkpoints (project_id, created_at DESC);
+
+-- Snapshot of every file at checkpoint time
+CREATE TABLE public.checkpoint_files (
+  checkpoint_id UUID REFERENCES public.checkpoints(id) ON DELETE CASCADE NOT NULL,
+  path TEXT NOT NULL,
+  content TEXT,
+  language TEXT,
+  PRIMARY KEY (checkpoint_id, path)
+);
+
+ALTER TABLE public.checkpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.checkpoint_files ENABLE ROW LEVEL SECURITY;
+
+-- Checkpoints are written through the functions below
+CREATE POLICY "Users can view checkpoints in their projects"
+ON public.checkpoints
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = checkpoints.project_id
+      AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete checkpoints in their projects"
+ON public.checkpoints
+FOR DELETE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = checkpoints.project_id
+      AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can view checkpoint files in their projects"
+ON public.checkpoint_files
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.checkpoints
+    JOIN public.projects ON projects.id = checkpoints.project_id
+    WHERE checkpoints.id = checkpoint_files.checkpoint_id
+      AND projects.user_id = auth.uid()
+  )
+);
+
+-- Snapshot all files of a project
+CREATE OR REPLACE FUNCTION public.create_checkpoint(
+  _project_id UUID,
+  _name TEXT,
+  _kind TEXT DEFAULT 'manual',
+  _message_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _checkpoint_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE id = _project_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  INSERT INTO public.checkpoints (project_id, name, kind, message_id, created_by)
+  VALUES (_project_id, _name, _kind, _message_id, auth.uid())
+  RETURNING id INTO _checkpoint_id;
+
+  INSERT INTO public.checkpoint_files (checkpoint_id, path, content, language)
+  SELECT _checkpoint_id, path, content, language
+  FROM public.files
+  WHERE project_id = _project_id;
+
+  RETURN _checkpoint_id;
+END;
+$$;
+
+-- Put every file back as it was at the checkpoint, in one transaction.
+-- Files created after the checkpoint are deleted.
+CREATE OR REPLACE FUNCTION public.restore_checkpoint(_checkpoint_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _project_id UUID;
+BEGIN
+  SELECT checkpoints.project_id INTO _project_id
+  FROM public.checkpoints
+  JOIN public.projects ON projects.id = checkpoints.project_id
+  WHERE checkpoints.id = _checkpoint_id
+    AND projects.user_id = auth.uid();
+
+  IF _project_id IS NULL THEN
+    RAISE EXCEPTION 'Checkpoint not found';
+  END IF;
+
+  DELETE FROM public.files
+  WHERE project_id = _project_id
+    AND path NOT IN (
+      SELECT path FROM public.checkpoint_files WHERE checkpoint_id = _checkpoint_id
+    );
+
+  INSERT INTO public.files (project_id, path, content, language, last_author, last_message_id)
+  SELECT _project_id, path, content, language, 'user', NULL
+  FROM public.checkpoint_files
+  WHERE checkpoint_id = _checkpoint_id
+  ON CONFLICT (project_id, path) DO UPDATE
+  SET content = EXCLUDED.content,
+      language = EXCLUDED.language,
+      last_author = EXCLUDED.last_author,
+      last_message_id = EXCLUDED.last_message_id;
+END;
+$$;
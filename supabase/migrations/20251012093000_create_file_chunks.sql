@@ -0,0 +1,116 @@
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+-- Embedded slices of project files, used to retrieve code for large projects.
+-- Chunks are written by ai-code-assistant; `embedder` records which model
+-- produced the vector so switching models re-embeds instead of mixing spaces.
+CREATE TABLE public.file_chunks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_id UUID REFERENCES public.files(id) ON DELETE CASCADE NOT NULL,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  path TEXT NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  start_line INTEGER NOT NULL,
+  end_line INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  embedder TEXT NOT NULL,
+  embedding extensions.vector(768) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (file_id, embedder, chunk_index)
+);
+
+CREATE INDEX idx_file_chunks_project_embedder
+ON public.file_chunks (project_id, embedder);
+
+CREATE INDEX idx_file_chunks_embedding
+ON public.file_chunks USING hnsw (embedding extensions.vector_cosine_ops);
+
+ALTER TABLE public.file_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view chunks in their projects"
+ON public.file_chunks
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = file_chunks.project_id
+      AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can create chunks in their projects"
+ON public.file_chunks
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = file_chunks.project_id
+      AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete chunks in their projects"
+ON public.file_chunks
+FOR DELETE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = file_chunks.project_id
+      AND projects.user_id = auth.uid()
+  )
+);
+
+-- Drop a file's chunks when its content or path changes; files without
+-- chunks are re-embedded on the next assistant request
+CREATE OR REPLACE FUNCTION public.handle_file_chunks_stale()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content OR NEW.path IS DISTINCT FROM OLD.path THEN
+    DELETE FROM public.file_chunks WHERE file_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER files_invalidate_chunks
+  AFTER UPDATE ON public.files
+  FOR EACH ROW EXECUTE FUNCTION public.handle_file_chunks_stale();
+
+-- Nearest chunks to a query embedding, most similar first.
+-- Runs as the caller, so row level security limits it to their projects.
+CREATE OR REPLACE FUNCTION public.match_file_chunks(
+  _project_id UUID,
+  _embedder TEXT,
+  _query_embedding extensions.vector(768),
+  _match_count INTEGER DEFAULT 8
+)
+RETURNS TABLE (
+  path TEXT,
+  start_line INTEGER,
+  end_line INTEGER,
+  content TEXT,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    file_chunks.path,
+    file_chunks.start_line,
+    file_chunks.end_line,
+    file_chunks.content,
+    1 - (file_chunks.embedding <=> _query_embedding) AS similarity
+  FROM public.file_chunks
+  WHERE file_chunks.project_id = _project_id
+    AND file_chunks.embedder = _embedder
+  ORDER BY file_chunks.embedding <=> _query_embedding
+  LIMIT _match_count;
+$$;
@@ -0,0 +1,52 @@
+-- Which model provider a project's AI functions use. API keys stay in the
+-- edge function environment; a missing row means the environment default.
+CREATE TABLE public.project_ai_settings (
+  project_id UUID PRIMARY KEY REFERENCES public.projects(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL DEFAULT 'lovable'
+    CHECK (provider IN ('lovable', 'openai', 'gemini', 'anthropic', 'ollama', 'mock')),
+  model TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.project_ai_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view AI settings in their projects"
+ON public.project_ai_settings
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = project_ai_settings.project_id
+      AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can create AI settings in their projects"
+ON public.project_ai_settings
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = project_ai_settings.project_id
+      AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update AI settings in their projects"
+ON public.project_ai_settings
+FOR UPDATE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = project_ai_settings.project_id
+      AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE TRIGGER project_ai_settings_updated_at
+  BEFORE UPDATE ON public.project_ai_settings
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
@@ -0,0 +1,6 @@
+-- Generation parameters and custom instructions for a project's assistant.
+-- NULL means the provider's default.
+ALTER TABLE public.project_ai_settings
+ADD COLUMN temperature REAL CHECK (temperature BETWEEN 0 AND 2),
+ADD COLUMN max_tokens INTEGER CHECK (max_tokens BETWEEN 1 AND 65536),
+ADD COLUMN custom_instructions TEXT CHECK (char_length(custom_instructions) <= 8000);
@@ -0,0 +1,135 @@
+-- Pending user messages are answered by ai-responder / ai-message-processor.
+-- A worker claims a message (pending -> processing) with a lease, then either
+-- answers it (-> answered, linked to the reply) or releases it for a retry
+-- with backoff (-> pending) until it runs out of attempts (-> failed).
+-- A lease that expires, e.g. because the worker crashed, can be claimed again.
+ALTER TABLE public.message
+ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN locked_until TIMESTAMPTZ,
+ADD COLUMN next_attempt_at TIMESTAMPTZ,
+ADD COLUMN last_error TEXT,
+ADD COLUMN reply_id UUID REFERENCES public.message(id) ON DELETE SET NULL;
+
+ALTER TABLE public.message
+ADD CONSTRAINT message_status_check
+CHECK (status IN ('pending', 'processing', 'answered', 'failed', 'completed'));
+
+-- At most one reply per message, however many workers race for it
+CREATE UNIQUE INDEX idx_message_reply_id
+ON public.message (reply_id)
+WHERE reply_id IS NOT NULL;
+
+CREATE INDEX idx_message_claimable
+ON public.message (created_at)
+WHERE status IN ('pending', 'processing');
+
+-- Claim up to _limit messages, optionally one message or one project's.
+-- Rows another transaction is claiming are skipped rather than waited on.
+CREATE OR REPLACE FUNCTION public.claim_messages(
+  _message_id UUID DEFAULT NULL,
+  _project_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 10,
+  _lease_seconds INTEGER DEFAULT 120
+)
+RETURNS SETOF public.message
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.message
+  SET status = 'processing',
+      attempts = message.attempts + 1,
+      locked_until = now() + make_interval(secs => _lease_seconds),
+      next_attempt_at = NULL
+  WHERE message.id IN (
+    SELECT candidate.id
+    FROM public.message AS candidate
+    WHERE candidate.sender = 'user'
+      AND candidate.project_id IS NOT NULL
+      AND (_message_id IS NULL OR candidate.id = _message_id)
+      AND (_project_id IS NULL OR candidate.project_id = _project_id)
+      AND (
+        (candidate.status = 'pending'
+          AND (candidate.next_attempt_at IS NULL OR candidate.next_attempt_at <= now()))
+        OR (candidate.status = 'processing' AND candidate.locked_until < now())
+      )
+    ORDER BY candidate.created_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING message.*;
+$$;
+
+-- Store the reply and mark the message answered, unless the claim identified
+-- by _attempt has been lost to another worker. Returns the reply id, or NULL.
+CREATE OR REPLACE FUNCTION public.complete_message(
+  _message_id UUID,
+  _attempt INTEGER,
+  _reply_text TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _message public.message;
+  _reply_id UUID;
+BEGIN
+  SELECT * INTO _message
+  FROM public.message
+  WHERE id = _message_id
+    AND status = 'processing'
+    AND attempts = _attempt
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.message (project_id, sender, message_text, status)
+  VALUES (_message.project_id, 'ai', _reply_text, 'completed')
+  RETURNING id INTO _reply_id;
+
+  UPDATE public.message
+  SET status = 'answered',
+      reply_id = _reply_id,
+      locked_until = NULL,
+      last_error = NULL
+  WHERE id = _message_id;
+
+  RETURN _reply_id;
+END;
+$$;
+
+-- Release a failed claim: back to pending with exponential backoff
+-- (15s, 30s, 1m, ... capped at 15m), or failed once attempts run out.
+CREATE OR REPLACE FUNCTION public.fail_message(
+  _message_id UUID,
+  _attempt INTEGER,
+  _error TEXT,
+  _max_attempts INTEGER DEFAULT 5
+)
+RETURNS TEXT
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.message
+  SET status = CASE WHEN attempts >= _max_attempts THEN 'failed' ELSE 'pending' END,
+      next_attempt_at = CASE
+        WHEN attempts >= _max_attempts THEN NULL
+        ELSE now() + LEAST(interval '15 seconds' * power(2, attempts - 1), interval '15 minutes')
+      END,
+      locked_until = NULL,
+      last_error = _error
+  WHERE id = _message_id
+    AND status = 'processing'
+    AND attempts = _attempt
+  RETURNING status;
+$$;
+
+-- Only the edge functions, using the service role, drive the queue
+REVOKE EXECUTE ON FUNCTION public.claim_messages(UUID, UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_message(UUID, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.fail_message(UUID, INTEGER, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_messages(UUID, UUID, INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_message(UUID, INTEGER, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.fail_message(UUID, INTEGER, TEXT, INTEGER) TO service_role;
@@ -0,0 +1,193 @@
+-- Background work, run by the ai-job-worker edge function so it survives the
+-- browser tab closing. The editor follows a job's row over realtime: `output`
+-- grows while the assistant streams and `actions` lists the file changes made.
+CREATE TABLE public.jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'ai_turn' CHECK (kind IN ('ai_turn')),
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+  input JSONB NOT NULL DEFAULT '{}',
+  output TEXT NOT NULL DEFAULT '',
+  actions JSONB NOT NULL DEFAULT '[]',
+  error TEXT,
+  -- Id for the assistant message the job saves; chosen up front so the
+  -- editor can show the streaming reply under its final id. Not a foreign
+  -- key because the message only exists once the job finishes.
+  message_id UUID,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_jobs_project_created_at
+ON public.jobs (project_id, created_at DESC);
+
+CREATE INDEX idx_jobs_claimable
+ON public.jobs (created_at)
+WHERE status IN ('queued', 'running');
+
+CREATE TRIGGER jobs_updated_at
+  BEFORE UPDATE ON public.jobs
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view jobs in their projects"
+ON public.jobs
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = jobs.project_id
+      AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can create jobs in their projects"
+ON public.jobs
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  status = 'queued'
+  AND EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = jobs.project_id
+      AND projects.user_id = auth.uid()
+  )
+);
+
+-- Users may only cancel; the worker does every other update
+CREATE POLICY "Users can cancel jobs in their projects"
+ON public.jobs
+FOR UPDATE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = jobs.project_id
+      AND projects.user_id = auth.uid()
+  )
+)
+WITH CHECK (status = 'cancelled');
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.jobs;
+
+-- Claim up to _limit jobs for a worker. Running jobs whose lease expired are
+-- picked up again, unless they already used all their attempts.
+CREATE OR REPLACE FUNCTION public.claim_jobs(
+  _limit INTEGER DEFAULT 1,
+  _lease_seconds INTEGER DEFAULT 120,
+  _max_attempts INTEGER DEFAULT 3
+)
+RETURNS SETOF public.jobs
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.jobs
+  SET status = 'failed',
+      error = 'The worker stopped responding',
+      locked_until = NULL,
+      finished_at = now()
+  WHERE status = 'running'
+    AND locked_until < now()
+    AND attempts >= _max_attempts;
+
+  RETURN QUERY
+  UPDATE public.jobs
+  SET status = 'running',
+      attempts = jobs.attempts + 1,
+      locked_until = now() + make_interval(secs => _lease_seconds),
+      started_at = COALESCE(jobs.started_at, now()),
+      output = '',
+      actions = '[]'
+  WHERE jobs.id IN (
+    SELECT candidate.id
+    FROM public.jobs AS candidate
+    WHERE candidate.status = 'queued'
+      OR (candidate.status = 'running' AND candidate.locked_until < now())
+    ORDER BY candidate.created_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING jobs.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_jobs(INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_jobs(INTEGER, INTEGER, INTEGER) TO service_role;
+
+-- Start the worker. It needs the project URL and service role key, stored in
+-- Vault as `project_url` and `service_role_key`:
+--   SELECT vault.create_secret('https://<ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+-- Without them this does nothing and jobs wait for a manual invocation.
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+CREATE OR REPLACE FUNCTION public.invoke_job_worker()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _url TEXT;
+  _key TEXT;
+BEGIN
+  SELECT decrypted_secret INTO _url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO _key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF _url IS NULL OR _key IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := _url || '/functions/v1/ai-job-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || _key
+    ),
+    body := '{}'::jsonb
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.invoke_job_worker() FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_job_queued()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.invoke_job_worker();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER jobs_invoke_worker
+  AFTER INSERT ON public.jobs
+  FOR EACH ROW EXECUTE FUNCTION public.handle_job_queued();
+
+-- Sweep every minute for jobs a worker dropped or that were queued while the
+-- trigger could not reach the function
+SELECT cron.schedule(
+  'ai-job-worker',
+  '* * * * *',
+  $$
+  SELECT public.invoke_job_worker()
+  WHERE EXISTS (
+    SELECT 1 FROM public.jobs
+    WHERE status = 'queued'
+      OR (status = 'running' AND locked_until < now())
+  );
+  $$
+);
@@ -0,0 +1,84 @@
+-- Chat history becomes a tree so edited and regenerated messages keep the
+-- branch they replace. Each message points at the one it follows; roots have
+-- no parent. Deleting a message deletes everything below it.
+ALTER TABLE public.message
+  ADD COLUMN parent_id UUID REFERENCES public.message(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_message_parent_id
+ON public.message (parent_id);
+
+-- Existing history is a single line: each message follows the previous one
+UPDATE public.message
+SET parent_id = previous.parent_id
+FROM (
+  SELECT id,
+         LAG(id) OVER (PARTITION BY project_id ORDER BY created_at, id) AS parent_id
+  FROM public.message
+  WHERE project_id IS NOT NULL
+) AS previous
+WHERE message.id = previous.id
+  AND previous.parent_id IS NOT NULL;
+
+-- Queued messages come from clients that do not know about branches; they
+-- continue the conversation where it was last extended
+CREATE OR REPLACE FUNCTION public.handle_message_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NULL AND NEW.status = 'pending' AND NEW.project_id IS NOT NULL THEN
+    SELECT id INTO NEW.parent_id
+    FROM public.message
+    WHERE project_id = NEW.project_id
+    ORDER BY created_at DESC, id DESC
+    LIMIT 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER message_set_parent
+  BEFORE INSERT ON public.message
+  FOR EACH ROW EXECUTE FUNCTION public.handle_message_parent();
+
+-- Replies follow the message they answer
+CREATE OR REPLACE FUNCTION public.complete_message(
+  _message_id UUID,
+  _attempt INTEGER,
+  _reply_text TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _message public.message;
+  _reply_id UUID;
+BEGIN
+  SELECT * INTO _message
+  FROM public.message
+  WHERE id = _message_id
+    AND status = 'processing'
+    AND attempts = _attempt
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.message (project_id, parent_id, sender, message_text, status)
+  VALUES (_message.project_id, _message.id, 'ai', _reply_text, 'completed')
+  RETURNING id INTO _reply_id;
+
+  UPDATE public.message
+  SET status = 'answered',
+      reply_id = _reply_id,
+      locked_until = NULL,
+      last_error = NULL
+  WHERE id = _message_id;
+
+  RETURN _reply_id;
+END;
+$$;
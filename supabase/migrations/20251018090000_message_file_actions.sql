@@ -0,0 +1,5 @@
+-- File actions an assistant message proposed or applied, with their diffs, so
+-- the chat can show them as cards instead of text. message_text keeps only
+-- the assistant's prose.
+ALTER TABLE public.message
+  ADD COLUMN file_actions JSONB NOT NULL DEFAULT '[]';
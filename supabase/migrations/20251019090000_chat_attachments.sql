@@ -0,0 +1,49 @@
+-- Images and text files attached to chat messages. The files live in the
+-- private chat-attachments bucket under `<project id>/`; the message keeps
+-- their paths, names, types and sizes.
+ALTER TABLE public.message
+  ADD COLUMN attachments JSONB NOT NULL DEFAULT '[]';
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('chat-attachments', 'chat-attachments', false, 5242880)
+ON CONFLICT (id) DO NOTHING;
+
+-- Access follows ownership of the project named by the first path segment
+CREATE POLICY "Users can view chat attachments in their projects"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'chat-attachments'
+  AND EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id::TEXT = (storage.foldername(objects.name))[1]
+      AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can upload chat attachments in their projects"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'chat-attachments'
+  AND EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id::TEXT = (storage.foldername(objects.name))[1]
+      AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete chat attachments in their projects"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'chat-attachments'
+  AND EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id::TEXT = (storage.foldername(objects.name))[1]
+      AND projects.user_id = auth.uid()
+  )
+);
@@ -0,0 +1,95 @@
+-- One row per model call made by the edge functions: tokens, latency and the
+-- estimated cost. Rows are written with the service role only, so users
+-- cannot hide their own usage. Usage outlives its project so deleting a
+-- project does not reset its owner's monthly quota.
+CREATE TABLE public.ai_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('chat', 'job', 'message')),
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  -- False when the provider reported no usage and the tokens were counted
+  -- from the request and reply text
+  reported BOOLEAN NOT NULL DEFAULT true,
+  latency_ms INTEGER NOT NULL,
+  -- NULL for models without a known price
+  cost_usd NUMERIC(12, 6),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ai_usage_project_created_at
+ON public.ai_usage (project_id, created_at DESC);
+
+CREATE INDEX idx_ai_usage_user_created_at
+ON public.ai_usage (user_id, created_at DESC);
+
+ALTER TABLE public.ai_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their AI usage"
+ON public.ai_usage
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+-- Monthly token limit for a project; NULL means no limit. The per-user limit
+-- is the AI_MONTHLY_TOKEN_QUOTA edge function variable.
+ALTER TABLE public.project_ai_settings
+ADD COLUMN monthly_token_quota BIGINT CHECK (monthly_token_quota > 0);
+
+-- Daily totals for the usage dashboard, per project and model. Runs as the
+-- caller, so only their own usage is counted.
+CREATE OR REPLACE FUNCTION public.ai_usage_summary(
+  _since TIMESTAMPTZ,
+  _project_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  day DATE,
+  project_id UUID,
+  model TEXT,
+  calls BIGINT,
+  prompt_tokens BIGINT,
+  completion_tokens BIGINT,
+  cost_usd NUMERIC,
+  total_latency_ms BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    (ai_usage.created_at AT TIME ZONE 'UTC')::DATE,
+    ai_usage.project_id,
+    ai_usage.model,
+    COUNT(*),
+    SUM(ai_usage.prompt_tokens),
+    SUM(ai_usage.completion_tokens),
+    SUM(ai_usage.cost_usd),
+    SUM(ai_usage.latency_ms)
+  FROM public.ai_usage
+  WHERE ai_usage.created_at >= _since
+    AND (_project_id IS NULL OR ai_usage.project_id = _project_id)
+  GROUP BY 1, 2, 3
+  ORDER BY 1;
+$$;
+
+-- Tokens used since the start of the month (UTC), for enforcing quotas
+-- before a model call
+CREATE OR REPLACE FUNCTION public.ai_usage_this_month(_project_id UUID, _user_id UUID)
+RETURNS TABLE (project_tokens BIGINT, user_tokens BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(SUM(prompt_tokens + completion_tokens) FILTER (WHERE project_id = _project_id), 0),
+    COALESCE(SUM(prompt_tokens + completion_tokens) FILTER (WHERE user_id = _user_id), 0)
+  FROM public.ai_usage
+  WHERE created_at >= date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+    AND (project_id = _project_id OR user_id = _user_id);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.ai_usage_this_month(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.ai_usage_this_month(UUID, UUID) TO service_role;
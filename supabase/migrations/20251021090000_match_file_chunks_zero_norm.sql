@@ -0,0 +1,34 @@
+-- Cosine distance is NaN for zero vectors, which the local embedder produces
+-- for text without words (e.g. a chunk of closing braces). Leave those chunks
+-- out of matches, and match nothing for a zero query.
+CREATE OR REPLACE FUNCTION public.match_file_chunks(
+  _project_id UUID,
+  _embedder TEXT,
+  _query_embedding extensions.vector(768),
+  _match_count INTEGER DEFAULT 8
+)
+RETURNS TABLE (
+  path TEXT,
+  start_line INTEGER,
+  end_line INTEGER,
+  content TEXT,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    file_chunks.path,
+    file_chunks.start_line,
+    file_chunks.end_line,
+    file_chunks.content,
+    1 - (file_chunks.embedding <=> _query_embedding) AS similarity
+  FROM public.file_chunks
+  WHERE file_chunks.project_id = _project_id
+    AND file_chunks.embedder = _embedder
+    AND vector_norm(file_chunks.embedding) > 0
+    AND vector_norm(_query_embedding) > 0
+  ORDER BY file_chunks.embedding <=> _query_embedding
+  LIMIT _match_count;
+$$;
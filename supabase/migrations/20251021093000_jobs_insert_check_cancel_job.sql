@@ -0,0 +1,52 @@
+-- Jobs are created by users but run with the service role, so users may only
+-- create a fresh job as themselves. In particular the worker saves the reply
+-- under `message_id`, which it now always picks itself.
+DROP POLICY "Users can create jobs in their projects" ON public.jobs;
+
+CREATE POLICY "Users can create jobs in their projects"
+ON public.jobs
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  created_by = auth.uid()
+  AND status = 'queued'
+  AND attempts = 0
+  AND message_id IS NULL
+  AND EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = jobs.project_id
+      AND projects.user_id = auth.uid()
+  )
+);
+
+-- The update policy let users rewrite any column as long as the status ended
+-- up cancelled; cancelling goes through cancel_job instead
+DROP POLICY "Users can cancel jobs in their projects" ON public.jobs;
+
+-- Cancel a queued or running job. The worker notices on its next update.
+-- Finished jobs are left as they are.
+CREATE OR REPLACE FUNCTION public.cancel_job(_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.jobs
+    JOIN public.projects ON projects.id = jobs.project_id
+    WHERE jobs.id = _id
+      AND projects.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Job not found';
+  END IF;
+
+  UPDATE public.jobs
+  SET status = 'cancelled',
+      locked_until = NULL,
+      finished_at = now()
+  WHERE id = _id
+    AND status IN ('queued', 'running');
+END;
+$$;
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
@@ -15,4 +16,10 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  test: {
+    environment: "jsdom",
+    // Edge function modules import npm packages the Deno way
+    alias: [{ find: /^npm:(.+)@[\d.]+$/, replacement: "$1" }],
+    setupFiles: ["./src/test/setup.ts"],
+  },
 }));